@@ -3,6 +3,10 @@ const config = {
   images: {
     domains: [],
   },
+  experimental: {
+    // Native module loaded by the SQLite storage driver
+    serverComponentsExternalPackages: ['better-sqlite3'],
+  },
 }
 
 export default config
@@ -0,0 +1,37 @@
+/**
+ * @dev Batch migration of chat documents to the current schema version
+ * Usage: pnpm chats:migrate [--prefix chats/{emailKey}/] [--dry-run] [--extract-images]
+ */
+
+import { parseArgs } from 'util';
+import { CHAT_SCHEMA_VERSION } from '@/lib/chat-schema';
+import { migrateChatDocuments } from '@/lib/chat-migration';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      prefix: { type: 'string', default: 'chats/' },
+      'dry-run': { type: 'boolean', default: false },
+      'extract-images': { type: 'boolean', default: false },
+    },
+  });
+
+  const dryRun = values['dry-run'];
+  console.log(`Upgrading chats under ${values.prefix} to schema v${CHAT_SCHEMA_VERSION}${dryRun ? ' (dry run)' : ''}...`);
+
+  const result = await migrateChatDocuments({
+    prefix: values.prefix,
+    dryRun,
+    extractImages: values['extract-images'],
+    onProgress: (blobPath, status, error) =>
+      console.log(`  ${status.padEnd(8)} ${blobPath}${error ? ` (${error instanceof Error ? error.message : error})` : ''}`),
+  });
+
+  console.log(`Done: ${result.migrated} migrated, ${result.current} already current, ${result.failed} failed.`);
+  if (result.failed > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
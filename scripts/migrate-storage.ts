@@ -0,0 +1,56 @@
+/**
+ * @dev One-shot migrator that copies blob data between storage drivers
+ * Usage: pnpm storage:migrate --from azure --to sqlite [--prefix users/] [--overwrite]
+ */
+
+import { parseArgs } from 'util';
+import { createDriver } from '@/lib/storage';
+import { copyBlobs } from '@/lib/storage/migrate';
+import { isAttachmentBinaryPath } from '@/lib/attachments';
+
+// Every storage area; keep in sync with new ones (see also account-deletion.ts)
+const DEFAULT_PREFIXES = [
+  'users/',
+  'keys/',
+  'chats/',
+  'chat-index/',
+  'attachments/',
+  'tombstones/',
+  'usage/',
+  'prompts/',
+  // Short-lived windows, but copying them keeps limits in force across the switch
+  'rate-limits/',
+];
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string', default: 'azure' },
+      to: { type: 'string', default: 'sqlite' },
+      prefix: { type: 'string', multiple: true },
+      overwrite: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.from === values.to) {
+    throw new Error('--from and --to must be different drivers');
+  }
+
+  const source = createDriver(values.from!);
+  const target = createDriver(values.to!);
+  console.log(`Copying blobs from ${source.name} to ${target.name}...`);
+
+  const result = await copyBlobs(source, target, {
+    prefixes: values.prefix?.length ? values.prefix : DEFAULT_PREFIXES,
+    overwrite: values.overwrite,
+    isBinary: isAttachmentBinaryPath,
+    onProgress: (blobPath, status) => console.log(`  ${status.padEnd(7)} ${blobPath}`),
+  });
+
+  console.log(`Done: ${result.copied} copied, ${result.skipped} skipped.`);
+}
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
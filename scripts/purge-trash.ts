@@ -0,0 +1,19 @@
+/**
+ * @dev Scheduled purge of expired trash for every user
+ * Usage: pnpm trash:purge (run daily, e.g. from cron, with the app's storage settings)
+ */
+
+import { purgeAllExpiredTrash, TRASH_RETENTION_DAYS } from '@/lib/chat-trash';
+
+async function main() {
+  console.log(`Purging chats trashed more than ${TRASH_RETENTION_DAYS} days ago...`);
+
+  const purged = await purgeAllExpiredTrash(new Date(), (emailKey, count) => console.log(`  purged ${count} from ${emailKey}`));
+
+  console.log(`Done: ${purged} chats purged.`);
+}
+
+main().catch((error) => {
+  console.error('Trash purge failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+/**
+ * @dev Key rotation and re-encryption job for storage encryption at rest
+ * Usage: pnpm storage:rotate-keys [--user {emailKey}] [--rotate-data-keys] [--prune]
+ *
+ * 1. Rewraps every data key with the first (active) entry of STORAGE_MASTER_KEYS
+ * 2. With --rotate-data-keys, gives each user a fresh data key
+ * 3. Re-encrypts plaintext blobs and blobs under older data keys
+ * 4. With --prune, drops retired data keys for users whose blobs all re-encrypted
+ */
+
+import { parseArgs } from 'util';
+import { createDriver } from '@/lib/storage';
+import { createKeyring, parseMasterKeys } from '@/lib/storage/keyring';
+import {
+  createEncryptedDriver,
+  encryptedPrefixesFor,
+  ownerOfPath,
+  reencryptBlobs,
+} from '@/lib/storage/encryption';
+import { isAttachmentBinaryPath } from '@/lib/attachments';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      user: { type: 'string', multiple: true },
+      'rotate-data-keys': { type: 'boolean', default: false },
+      prune: { type: 'boolean', default: false },
+    },
+  });
+
+  const masterKeys = parseMasterKeys();
+  if (masterKeys.length === 0) {
+    throw new Error('STORAGE_MASTER_KEYS is not set; nothing to rotate');
+  }
+
+  const inner = createDriver(process.env.STORAGE_DRIVER || 'azure');
+  const keyring = createKeyring(inner, masterKeys);
+  const encrypted = createEncryptedDriver(inner, keyring);
+
+  // Users with keys plus users who only have plaintext data so far
+  let users = values.user;
+  if (!users?.length) {
+    const owners = new Set(await keyring.listUsers());
+    for (const area of ['chats/', 'chat-index/', 'attachments/']) {
+      for (const name of await inner.listBlobs(area)) {
+        const owner = ownerOfPath(name);
+        if (owner) owners.add(owner);
+      }
+    }
+    users = [...owners].sort();
+  }
+
+  console.log(`Rotating keys for ${users.length} user(s) on ${inner.name} (master key "${masterKeys[0].id}")...`);
+  let failed = 0;
+
+  for (const emailKey of users) {
+    if (await keyring.rewrapKeys(emailKey)) console.log(`  rewrapped   keys/${emailKey}.json`);
+    if (values['rotate-data-keys']) {
+      const { id } = await keyring.rotateDataKey(emailKey);
+      console.log(`  rotated     keys/${emailKey}.json -> ${id}`);
+    }
+
+    const result = await reencryptBlobs(inner, encrypted, keyring, {
+      prefixes: encryptedPrefixesFor(emailKey),
+      isBinary: isAttachmentBinaryPath,
+      onProgress: (blobPath, status, error) => {
+        if (status !== 'current') console.log(`  ${status.padEnd(11)} ${blobPath}${error ? ` (${error})` : ''}`);
+      },
+    });
+    failed += result.failed;
+
+    if (values.prune && result.failed === 0) {
+      const removed = await keyring.pruneKeys(emailKey);
+      if (removed > 0) console.log(`  pruned      ${removed} retired key(s) for ${emailKey}`);
+    }
+  }
+
+  console.log(failed ? `Done with ${failed} failure(s); retired keys were kept for those users.` : 'Done.');
+  if (failed) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error('Key rotation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { buildAccountArchive } from '@/lib/account-archive';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const archive = await buildAccountArchive(session.user.email);
+    const filename = `algosensei-export-${archive.exportedAt.slice(0, 10)}.json`;
+
+    return new Response(JSON.stringify(archive), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Account export error:', error);
+    return NextResponse.json({ error: 'Failed to export account data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { restoreAccountArchive, ArchiveValidationError } from '@/lib/account-archive';
+import { AttachmentValidationError } from '@/lib/attachments';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let archive: unknown;
+    try {
+      archive = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Archive is not valid JSON' }, { status: 400 });
+    }
+
+    const summary = await restoreAccountArchive(session.user.email, archive);
+
+    return NextResponse.json({ imported: summary });
+  } catch (error) {
+    if (error instanceof ArchiveValidationError || error instanceof AttachmentValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Account import error:', error);
+    return NextResponse.json({ error: 'Failed to import account data' }, { status: 500 });
+  }
+}
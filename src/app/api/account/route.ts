@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import bcrypt from 'bcryptjs';
+import { authOptions } from '@/lib/auth-options';
+import { getUser } from '@/lib/users';
+import { deleteAccount } from '@/lib/account-deletion';
+
+export const runtime = 'nodejs';
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { password } = await req.json().catch(() => ({}));
+    if (!password) {
+      return NextResponse.json({ error: 'Password is required' }, { status: 400 });
+    }
+
+    const user = await getUser(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    // Re-confirm identity; a stolen session alone must not be able to wipe an account
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 403 });
+    }
+
+    const tombstone = await deleteAccount(user);
+
+    return NextResponse.json({ success: true, deleted: tombstone.deleted });
+  } catch (error) {
+    console.error('Account deletion error:', error);
+    return NextResponse.json({ error: 'Failed to delete account' }, { status: 500 });
+  }
+}
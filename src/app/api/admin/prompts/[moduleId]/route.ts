@@ -0,0 +1,90 @@
+/**
+ * @dev One prompt module of the registry, for admins (ADMIN_EMAILS)
+ * GET   — the module with every version's text
+ * POST  — publish a new version { text, note? } and make it active
+ * PATCH — activate an existing version { activeVersion } (rollback)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { isAdmin } from '@/lib/users';
+import {
+  activatePromptVersion,
+  getPromptModule,
+  PromptRegistryError,
+  publishPromptModule,
+} from '@/lib/prompts';
+
+export const runtime = 'nodejs';
+
+export async function GET(_req: NextRequest, { params }: { params: { moduleId: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.user.email)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    return NextResponse.json(await getPromptModule(params.moduleId));
+  } catch (error) {
+    if (error instanceof PromptRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Load prompt module error:', error);
+    return NextResponse.json({ error: 'Failed to load prompt module' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { moduleId: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.user.email)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { text, note } = await req.json();
+    if (typeof text !== 'string') {
+      return NextResponse.json({ error: 'text is required' }, { status: 400 });
+    }
+    const record = await publishPromptModule(params.moduleId, text, {
+      createdBy: session.user.email,
+      note: typeof note === 'string' && note.trim() ? note.trim() : undefined,
+    });
+    return NextResponse.json(record, { status: 201 });
+  } catch (error) {
+    if (error instanceof PromptRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Publish prompt module error:', error);
+    return NextResponse.json({ error: 'Failed to publish prompt module' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { moduleId: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.user.email)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { activeVersion } = await req.json();
+    if (!Number.isInteger(activeVersion)) {
+      return NextResponse.json({ error: 'activeVersion must be an integer' }, { status: 400 });
+    }
+    return NextResponse.json(await activatePromptVersion(params.moduleId, activeVersion));
+  } catch (error) {
+    if (error instanceof PromptRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Activate prompt version error:', error);
+    return NextResponse.json({ error: 'Failed to activate prompt version' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * @dev Prompt registry overview, for admins (ADMIN_EMAILS)
+ * GET — every prompt module with its active version and version history
+ * (texts omitted), and the modules each tutor mode is composed of
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { isAdmin } from '@/lib/users';
+import { listPromptModules, PROMPT_COMPOSITIONS } from '@/lib/prompts';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.user.email)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const modules = (await listPromptModules()).map(({ versions, ...module }) => ({
+      ...module,
+      versions: versions.map(({ text, ...version }) => ({ ...version, chars: text.length })),
+    }));
+    return NextResponse.json({ modules, compositions: PROMPT_COMPOSITIONS });
+  } catch (error) {
+    console.error('List prompt modules error:', error);
+    return NextResponse.json({ error: 'Failed to load prompt modules' }, { status: 500 });
+  }
+}
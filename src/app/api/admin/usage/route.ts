@@ -0,0 +1,30 @@
+/**
+ * @dev Token usage across all users, for admins (ADMIN_EMAILS)
+ * GET ?days=30 — per-day, per-model and per-user totals with estimated cost
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { getAllUsage } from '@/lib/usage';
+import { isAdmin } from '@/lib/users';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isAdmin(session.user.email)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const days = Number(req.nextUrl.searchParams.get('days')) || 30;
+    return NextResponse.json(await getAllUsage(days));
+  } catch (error) {
+    console.error('Admin usage report error:', error);
+    return NextResponse.json({ error: 'Failed to load usage' }, { status: 500 });
+  }
+}
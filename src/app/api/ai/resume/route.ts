@@ -0,0 +1,50 @@
+/**
+ * @dev Resume an assistant reply stream after a disconnect
+ * GET ?chatId=...&messageId=...&offset=<characters already received>
+ * Responds with the same event stream as POST /api/ai, starting at `offset`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { encodeEmail } from '@/lib/storage';
+import { getChat } from '@/lib/chats';
+import { resumeReply } from '@/lib/reply-stream';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = req.nextUrl.searchParams;
+    const chatId = params.get('chatId');
+    const messageId = params.get('messageId');
+    const offset = Math.max(0, Number(params.get('offset')) || 0);
+    if (!chatId || !messageId) {
+      return NextResponse.json({ error: 'chatId and messageId are required' }, { status: 400 });
+    }
+
+    const emailKey = encodeEmail(session.user.email);
+    const result = await getChat(emailKey, chatId);
+    const message = result?.data.messages.find((m) => m.id === messageId);
+
+    if (!result || result.data.userEmail !== session.user.email || result.data.deletedAt || message?.role !== 'assistant') {
+      return NextResponse.json({ error: 'Reply not found' }, { status: 404 });
+    }
+
+    return new Response(resumeReply(emailKey, chatId, messageId, offset), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Resume stream error:', error);
+    return NextResponse.json({ error: 'Failed to resume reply' }, { status: 500 });
+  }
+}
@@ -1,168 +1,54 @@
 /**
  * @dev AI route handler for DSA tutoring
- * Features: Azure OpenAI integration, multimodal (image) support, SVG/Mermaid visual generation,
- * Socratic teaching method, structured memory, progressive hint system
+ * Features: pluggable LLM providers (Azure OpenAI, OpenAI-compatible, Ollama), multimodal (image) support with stored attachments, SVG/Mermaid visual generation,
+ * Socratic teaching method, structured memory, progressive hint system, versioned system prompt (src/lib/prompts),
+ * timed mock interviews with server-counted hints (src/lib/interview), server-validated teaching stages (src/lib/teaching-stages.ts)
  */
 
-import { NextRequest } from 'next/server';
-import { headers } from 'next/headers';
-import OpenAI from 'openai';
+import { NextRequest, NextResponse } from 'next/server';
 import { mem0UpsertMemory, mem0QueryMemories } from '@/lib/mem0';
 import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
 import { getSessionId } from '@/lib/session';
+import { isAttachmentId } from '@/lib/attachments';
+import { encodeEmail } from '@/lib/storage';
+import { getChat, updateChat } from '@/lib/chats';
+import { ChatSchemaError, parseIncomingMessage, type StoredChat, type StoredMessage } from '@/lib/chat-schema';
+import { fitContextWindow, fitMemories } from '@/lib/context-window';
+import { appendMessage, findMessage, forkMessage, pathTo } from '@/lib/chat-tree';
+import { isReplyLive, startReply } from '@/lib/reply-stream';
+import { estimateMessageTokens, estimateTokens, GenerationAbortedError, getLLMProvider, type ChatMessage, type TokenUsage } from '@/lib/llm';
+import { encodeAiEvent, type AiStreamEvent } from '@/lib/ai-events';
+import { createReplyAnalyzer, type AnalyzedText } from '@/lib/ai-stream';
+import { enforceRateLimits, RateLimitError } from '@/lib/rate-limit';
+import { trackUsage } from '@/lib/usage';
+import { composeSystemPrompt } from '@/lib/prompts';
+import { getTutorMode, numberCodeLines } from '@/lib/tutor-modes';
+import {
+  checkStageMove,
+  requestStage,
+  rewindReply,
+  settleTutorStage,
+  stageContext,
+  stageLabel,
+  TeachingStageError,
+  teachingStateOf,
+} from '@/lib/teaching-stages';
+import { assertInterviewOpen, interviewContext, InterviewError, takeInterviewHint } from '@/lib/interview';
 
 export const runtime = 'nodejs';
 
-/* ------------------------------------------------------------------ */
-/*  System prompt – Socratic, visual-first DSA tutor                  */
-/* ------------------------------------------------------------------ */
-
-const systemPrompt = `You are **AlgoSensei**, a world-class DSA tutor who teaches through the **Socratic method** and **visual explanations**.
-
-━━━ CORE PHILOSOPHY ━━━
-• Never hand the answer on a plate. Ask guiding questions so the learner *discovers* the solution.
-• Adapt difficulty to the learner's level. If they struggle, simplify. If they breeze through, raise the bar.
-• After every problem, connect it to a known DSA pattern (sliding window, two pointers, BFS/DFS, DP, greedy, divide & conquer, etc.) so the learner builds a mental pattern library.
-
-━━━ VISUAL-FIRST TEACHING ━━━
-You MUST use visuals in almost every response. You have two tools:
-
-### 1. SVG Diagrams (for data structure state)
-Use fenced \`\`\`svg code blocks containing valid SVG markup.
-Generate SVGs to show:
-  – **Arrays**: horizontal boxes with indices on top, values inside. Highlight active/compared cells with color.
-  – **Linked Lists**: rectangular nodes with arrows (→) connecting them. Show head/tail pointers.
-  – **Trees (Binary, BST, Heap)**: circles for nodes connected by lines. Color the current node green, visited nodes gray.
-  – **Graphs**: circles for vertices, lines/arrows for edges, with weight labels.
-  – **Stacks & Queues**: vertical (stack) or horizontal (queue) boxes with push/pop/enqueue/dequeue arrows.
-  – **Hash Tables**: array of buckets with chains for collision visualization.
-  – **DP Tables**: grid with row/column headers and filled values, highlighting the current cell.
-  – **Sorting steps**: show the array state at each step with swapped elements highlighted.
-
-SVG Guidelines:
-  – Keep SVGs under 80 lines. Use viewBox for scaling, default width="100%" max 600px.
-  – Use readable fonts: font-family="ui-sans-serif, system-ui, sans-serif", font-size 14.
-  – Color palette: #6366f1 (indigo/primary), #22c55e (green/success), #ef4444 (red/error), #f59e0b (amber/highlight), #e5e7eb (gray/default).
-  – Always include text labels for indices, values, and pointers.
-  – For step-by-step algorithms, generate a NEW SVG for each step to show progression.
-
-Example of a valid SVG code block for an array [3, 7, 1, 9]:
-\`\`\`svg
-<svg viewBox="0 0 320 70" xmlns="http://www.w3.org/2000/svg" width="100%" style="max-width:400px">
-  <g font-family="ui-sans-serif, system-ui, sans-serif" font-size="12" text-anchor="middle">
-    <text x="40" y="15" fill="#6b7280">0</text>
-    <text x="120" y="15" fill="#6b7280">1</text>
-    <text x="200" y="15" fill="#6b7280">2</text>
-    <text x="280" y="15" fill="#6b7280">3</text>
-    <rect x="0" y="20" width="80" height="40" rx="4" fill="#e5e7eb" stroke="#9ca3af"/>
-    <rect x="80" y="20" width="80" height="40" rx="4" fill="#6366f1" stroke="#4f46e5"/>
-    <rect x="160" y="20" width="80" height="40" rx="4" fill="#e5e7eb" stroke="#9ca3af"/>
-    <rect x="240" y="20" width="80" height="40" rx="4" fill="#e5e7eb" stroke="#9ca3af"/>
-    <text x="40" y="46" font-size="16" font-weight="bold" fill="#111827">3</text>
-    <text x="120" y="46" font-size="16" font-weight="bold" fill="#ffffff">7</text>
-    <text x="200" y="46" font-size="16" font-weight="bold" fill="#111827">1</text>
-    <text x="280" y="46" font-size="16" font-weight="bold" fill="#111827">9</text>
-  </g>
-</svg>
-\`\`\`
-
-### 2. Mermaid Diagrams (for algorithm flow)
-Use fenced \`\`\`mermaid code blocks.
-Use Mermaid for:
-  – **Algorithm flowcharts**: decision trees, loop structures, recursion call stacks.
-  – **State machines**: DFA/NFA for string problems.
-  – **Comparison diagrams**: brute-force vs optimized approach.
-  – **Complexity visualization**: growth rate comparisons.
-
-Example:
-\`\`\`mermaid
-flowchart TD
-    A[Start: i=0, j=n-1] --> B{arr[i]+arr[j] == target?}
-    B -- Yes --> C[Return i, j]
-    B -- Sum too small --> D[i++]
-    B -- Sum too large --> E[j--]
-    D --> B
-    E --> B
-\`\`\`
-
-### 3. Image Analysis
-When the user shares an image (problem screenshot, whiteboard sketch, handwritten notes):
-  – Analyze the image carefully and describe what you see.
-  – If it contains a DSA problem, extract the problem statement and proceed with teaching.
-  – If it contains a solution attempt, evaluate it for correctness and suggest improvements.
-  – If it contains a data structure diagram, recreate it as an SVG and explain it.
-
-━━━ TEACHING METHODOLOGY (6 Stages) ━━━
-
-Follow these stages IN ORDER. Do NOT skip ahead. After each stage, ask if it's clear and wait.
-
-**Stage 1 — Problem Understanding**
-  – Restate the problem in simple terms
-  – Identify inputs, outputs, constraints
-  – Generate an SVG showing a small example input/output
-  – Ask: "Does this make sense? Can you describe the problem back to me?"
-
-**Stage 2 — Manual Walkthrough (Test Cases)**
-  – Show a simple test case with an SVG visualization
-  – Ask the learner to trace through it manually: "What would happen at each step?"
-  – If wrong, highlight the mistake in the SVG (use red) and gently guide them
-  – If right, ask if they want a harder test case
+const MAX_REPLY_TOKENS = 4096;
 
-**Stage 3 — Pattern Recognition & Logic Building**
-  – Ask: "What approach comes to mind?" (let THEM think first)
-  – If stuck, give a hint: "What if we used [data structure/technique]?"
-  – Start with brute force — generate a Mermaid flowchart of the approach
-  – Generate step-by-step SVGs showing the algorithm operating on an example
-  – Guide toward optimization by asking: "Where do we repeat work? Can we cache/reuse?"
-
-**Stage 4 — Algorithm & Pseudocode**
-  – Once the learner arrives at the approach, help them write pseudocode
-  – Show a Mermaid flowchart of the final algorithm
-  – Analyze time/space complexity
-
-**Stage 5 — Implementation**
-  – Write clean code in the learner's preferred language (default: Python)
-  – Annotate key lines with comments explaining the "why"
-  – Handle edge cases explicitly
-
-**Stage 6 — Verification & Pattern Linking**
-  – Walk through 2-3 test cases with SVG visualizations step-by-step
-  – Check edge cases
-  – Confirm complexity analysis
-  – **Connect to patterns**: "This is a classic [sliding window / two-pointer / BFS / DP] problem. Similar problems include: ..."
-  – Suggest 2-3 related follow-up problems to practice
-
-━━━ PROGRESSIVE HINT SYSTEM ━━━
-When a learner is stuck and asks for a hint, give hints progressively:
-  • **Hint 1** (Category): "Think about what *category* of technique applies here..."
-  • **Hint 2** (Data Structure): "Consider using a [hash map / stack / heap]..."
-  • **Hint 3** (Approach sketch): A Mermaid flowchart showing the high-level approach without code
-  • **Hint 4** (Pseudocode): Step-by-step pseudocode
-Only reveal the next hint when asked. Never jump to the final answer.
-
-━━━ MEMORY & CONTEXT ━━━
-You will receive a "Previous context" section with summarized memories about this learner:
-  – Topics they've covered, skill level, preferred language
-  – Patterns they've mastered vs areas they struggle with
-  – Recurring mistakes to watch for
-Use this to personalize teaching. Reference past sessions when relevant:
-  "Last time you worked on two-pointer problems — this uses a similar approach."
-
-━━━ RESPONSE FORMAT ━━━
-  – Use markdown headings (#, ##) to structure sections
-  – Format code in fenced blocks with the language tag
-  – Use **bold** for key terms and definitions
-  – Use bullet points for lists
-  – Place SVG/Mermaid blocks inline where they naturally support the explanation
-  – Keep text concise — let visuals do the heavy lifting
-
-━━━ HARD RULES ━━━
-  1. ALWAYS wait for confirmation before moving to the next stage.
-  2. NEVER reveal the full solution upfront. Guide the learner to it.
-  3. All examples MUST be correct. Mentally verify with 2+ test cases before sharing.
-  4. If you are unsure about correctness, say so explicitly.
-  5. Generate SVGs as \`\`\`svg code blocks. Generate Mermaid as \`\`\`mermaid code blocks.
-  6. Accuracy is paramount. Never provide unverified examples or solutions.`;
+// Code review feedback points at lines, so the learner's code blocks get line numbers
+function withNumberedCode(message: ChatMessage): ChatMessage {
+  if (message.role !== 'user') return message;
+  if (typeof message.content === 'string') return { ...message, content: numberCodeLines(message.content) };
+  return {
+    ...message,
+    content: message.content.map((part) => (part.type === 'text' ? { ...part, text: numberCodeLines(part.text) } : part)),
+  };
+}
 
 /* ------------------------------------------------------------------ */
 /*  Route handler                                                      */
@@ -170,116 +56,254 @@ Use this to personalize teaching. Reference past sessions when relevant:
 
 export async function POST(req: NextRequest) {
   try {
-    const headersList = headers();
-    const cookieHeader = headersList.get('cookie');
-    if (!cookieHeader?.includes('next-auth.session-token')) {
-      return new Response('Unauthorized', { status: 401 });
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!process.env.AZURE_OPENAI_ENDPOINT) throw new Error('AZURE_OPENAI_ENDPOINT is not set');
-    if (!process.env.AZURE_OPENAI_KEY) throw new Error('AZURE_OPENAI_KEY is not set');
-    if (!process.env.AZURE_OPENAI_DEPLOYMENT) throw new Error('AZURE_OPENAI_DEPLOYMENT is not set');
-    if (!process.env.AZURE_OPENAI_API_VERSION) throw new Error('AZURE_OPENAI_API_VERSION is not set');
-
-    const client = new OpenAI({
-      apiKey: process.env.AZURE_OPENAI_KEY,
-      baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/deployments/${process.env.AZURE_OPENAI_DEPLOYMENT}`,
-      defaultQuery: { 'api-version': process.env.AZURE_OPENAI_API_VERSION },
-      defaultHeaders: { 'api-key': process.env.AZURE_OPENAI_KEY },
-    });
-
-    const { messages } = await req.json();
+    // Exactly one of: `message` (a new turn), `message` + `edit` (fork at an earlier
+    // user message) or `regenerate` (a new answer for an existing reply).
+    // `hint` marks a mock interview turn sent with the hint button; it is counted against the score.
+    // `stage` is a teaching stage picked on the progress bar, sent with the message asking for it
+    const { chatId, message, edit, regenerate, hint, stage } = await req.json();
+    if (typeof chatId !== 'string' || !chatId) {
+      return NextResponse.json({ error: 'chatId is required' }, { status: 400 });
+    }
 
-    // Identify user for memory context
-    const session = await getServerSession();
-    const userId = session?.user?.email || session?.user?.id || 'anonymous';
+    const userEmail = session.user.email;
+    const userId = userEmail;
+    const emailKey = encodeEmail(userEmail);
     const sessionId = getSessionId();
 
-    // Build message array supporting both text-only and multimodal (image) messages
-    const validMessages = messages
-      .filter((msg: any) => {
-        if (Array.isArray(msg.content)) {
-          return msg.content.some((part: any) =>
-            (part.type === 'text' && part.text?.trim()) ||
-            part.type === 'image_url'
-          );
-        }
-        return msg.content && msg.content.trim() !== '';
-      })
-      .map((msg: any) => {
-        const role = msg.role === 'user' ? 'user' : 'assistant';
+    // Before the chat is touched, so a rejected message is not stored
+    await enforceRateLimits(emailKey);
 
-        // Multimodal message with images
-        if (Array.isArray(msg.content)) {
-          return {
-            role,
-            content: msg.content.map((part: any) => {
-              if (part.type === 'image_url') {
-                return {
-                  type: 'image_url' as const,
-                  image_url: { url: part.image_url.url, detail: 'auto' as const },
-                };
-              }
-              return { type: 'text' as const, text: (part.text || '').trim() };
-            }),
-          };
+    const existing = await getChat(emailKey, chatId);
+    if (!existing || existing.data.userEmail !== userEmail || existing.data.deletedAt) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+    // With a new turn, the chat as it will be stored once the reply starts
+    let chat = existing.data;
+
+    // The conversation the reply answers: the branch up to the new (or edited) user
+    // message, or when regenerating, the branch before the reply getting a new variant
+    let history: StoredMessage[];
+    // Stored together with the reply, so a failed generation leaves no orphan turn
+    let addUserTurn: ((chat: StoredChat) => string) | undefined;
+
+    if (typeof regenerate === 'string') {
+      const target = findMessage(chat, regenerate);
+      if (!target || target.role !== 'assistant') {
+        return NextResponse.json({ error: 'Reply not found' }, { status: 404 });
+      }
+      if (isReplyLive(regenerate)) {
+        return NextResponse.json({ error: 'This reply is still being generated' }, { status: 409 });
+      }
+      assertInterviewOpen(chat);
+      history = pathTo(chat, target.parentId);
+    } else {
+      // Only user turns come from the client; the server owns the rest of the history
+      const userMessage = parseIncomingMessage({ ...message, role: 'user' });
+      userMessage.attachmentIds = userMessage.attachmentIds?.filter(isAttachmentId);
+      if (!userMessage.content.trim() && !userMessage.attachmentIds?.length) {
+        return NextResponse.json({ error: 'Message is empty' }, { status: 400 });
+      }
+      addUserTurn = (latest) => {
+        // Refused after the countdown, so the interview is graded on what was said in time
+        assertInterviewOpen(latest);
+        if (hint === true && latest.interview) takeInterviewHint(latest);
+        const appended = typeof edit === 'string' ? forkMessage(latest, edit, userMessage) : appendMessage(latest, userMessage);
+        if (stage !== undefined) {
+          if (!getTutorMode(latest.mode).stages) throw new TeachingStageError('Teaching stages are only tracked in Socratic mode');
+          requestStage(latest, stage, appended.id);
         }
+        return appended.id;
+      };
+      const draft = structuredClone(chat);
+      history = pathTo(draft, addUserTurn(draft));
+      chat = draft;
+    }
+
+    // Selected by LLM_PROVIDER; throws if the provider's configuration is incomplete
+    const provider = getLLMProvider();
 
-        return { role, content: msg.content.trim() };
-      });
+    // Aborted by /api/ai/stop; until the response starts, a dropped request aborts it too
+    const abort = new AbortController();
+    const abortOnDisconnect = () => abort.abort();
+    req.signal?.addEventListener('abort', abortOnDisconnect);
 
-    // Retrieve prior memories for personalization
-    const memories = await mem0QueryMemories(userId);
-    const memoryContext = memories?.length
-      ? memories.map((m: { content: string }) => `- ${m.content}`).join('\n')
+    // Retrieve prior memories for personalization, as many as fit their share of the budget
+    const memories: { content: string }[] = (await mem0QueryMemories(userId)) ?? [];
+    const memoryContext = memories.length
+      ? fitMemories(memories.map((m) => m.content)).map((content) => `- ${content}`).join('\n')
       : 'No previous sessions recorded yet.';
 
+    // Composed from the chat's mode, the active prompt module versions and the learner's settings
+    const systemPrompt = await composeSystemPrompt(chat.mode, { preferredLanguages: session.user.preferredLanguages });
+    const sections = [systemPrompt.text, `━━━ LEARNER CONTEXT (from memory) ━━━\n${memoryContext}`];
+    // The stage this reply starts from; a regenerated reply starts where the one it replaces did
+    const tracksStages = getTutorMode(chat.mode).stages;
+    const teaching = typeof regenerate === 'string' ? rewindReply(teachingStateOf(chat), regenerate) : teachingStateOf(chat);
+    if (tracksStages) sections.push(stageContext(teaching, stage !== undefined));
+    if (chat.interview?.status === 'active') {
+      sections.push(interviewContext(chat.interview, Date.now(), hint === true && typeof regenerate !== 'string'));
+    }
+    const systemMessage: ChatMessage = { role: 'system', content: sections.join('\n\n') };
+
+    // History from storage (attachments resolved), with older turns summarized when over budget
+    const context = await fitContextWindow({
+      provider,
+      userEmail,
+      history,
+      summary: chat.summary,
+      fixedTokens: estimateMessageTokens([systemMessage]) + MAX_REPLY_TOKENS,
+      signal: abort.signal,
+    });
+    if (context.usage) {
+      await trackUsage(userEmail, { chatId, kind: 'summary', provider: provider.name, model: provider.model, ...context.usage });
+    }
+    if (context.summaryChanged && context.summary) {
+      const summary = context.summary;
+      await updateChat(emailKey, chatId, (latest) => ({ ...latest, summary }));
+    }
+
+    const recent = chat.mode === 'code-review' ? context.messages.map(withNumberedCode) : context.messages;
+    const modelMessages: ChatMessage[] = [systemMessage, ...recent];
+
     // Use true streaming for token-by-token delivery
-    const completion = await client.chat.completions.create({
-      model: process.env.AZURE_OPENAI_DEPLOYMENT!,
+    const completion = provider.streamChat({
       temperature: 0.7,
-      max_tokens: 4096,
-      stream: true,
-      messages: [
-        {
-          role: 'system',
-          content: `${systemPrompt}\n\n━━━ LEARNER CONTEXT (from memory) ━━━\n${memoryContext}`,
-        },
-        ...validMessages,
-      ],
+      maxTokens: MAX_REPLY_TOKENS,
+      messages: modelMessages,
+      signal: abort.signal,
+    });
+
+    // Wait for the first chunk so connection and auth failures still surface as a 500
+    const chunks = completion[Symbol.asyncIterator]();
+    const first = await chunks.next();
+    req.signal?.removeEventListener('abort', abortOnDisconnect);
+
+    // From here on the reply is saved as it streams, whether or not the client keeps reading
+    const reply = await startReply(emailKey, chatId, abort, {
+      addUserTurn,
+      regenerate: typeof regenerate === 'string' ? regenerate : undefined,
+      promptVersion: systemPrompt.version,
     });
 
     const encoder = new TextEncoder();
     let fullContent = '';
+    let detached = false;
 
     const stream = new ReadableStream({
       async start(controller) {
-        try {
-          for await (const chunk of completion) {
-            const delta = chunk.choices?.[0]?.delta?.content;
-            if (delta) {
-              fullContent += delta;
-              controller.enqueue(encoder.encode(delta));
+        const send = (event: AiStreamEvent) => {
+          reply.publish(event);
+          if (!detached) controller.enqueue(encoder.encode(encodeAiEvent(event)));
+        };
+        let usage: TokenUsage | null = null;
+        // What the provider reported, or an estimate when it reports nothing (or stopped early)
+        const replyUsage = () => {
+          if (usage) return { ...usage, estimated: false };
+          const promptTokens = estimateMessageTokens(modelMessages);
+          const completionTokens = estimateTokens(fullContent);
+          return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+        };
+        // Stage from the reply's marker, validated when it arrives and recorded once the reply ends
+        let stageTo: number | null = null;
+        const finish = async (status: 'complete' | 'incomplete' | 'stopped') => {
+          // Stopped and failed replies are paid for too
+          await trackUsage(userEmail, {
+            chatId,
+            messageId: reply.messageId,
+            kind: 'reply',
+            provider: provider.name,
+            model: provider.model,
+            ...replyUsage(),
+          });
+          try {
+            await reply.finish(status);
+          } catch (error) {
+            console.error('Failed to save assistant reply:', error);
+            if (status === 'complete') send({ type: 'error', message: 'The reply could not be saved' });
+            status = 'incomplete';
+          }
+          if (tracksStages) {
+            try {
+              await updateChat(emailKey, chatId, (latest) => {
+                settleTutorStage(latest, reply.messageId, stageTo, typeof regenerate === 'string');
+                return latest;
+              });
+            } catch (error) {
+              console.error('Failed to save teaching stage:', error);
             }
           }
-          controller.close();
+          send({ type: 'done', reason: status === 'incomplete' ? 'error' : status });
+          if (!detached) controller.close();
+        };
+        const analyzer = createReplyAnalyzer();
+        // Stage markers are taken out of the text; only the first one of a reply counts
+        const forward = (analyzed: AnalyzedText) => {
+          if (analyzed.text) {
+            fullContent += analyzed.text;
+            send({ type: 'token', text: analyzed.text });
+          }
+          analyzed.events.forEach(send);
+          if (!tracksStages || stageTo !== null || !analyzed.markers.length) return;
+          stageTo = analyzed.markers[0].to;
+          if (!checkStageMove(teaching, stageTo)) send({ type: 'stage', stage: stageTo, label: stageLabel(stageTo) });
+        };
 
-          // Store assistant reply with metadata for structured memory
-          try {
-            await mem0UpsertMemory({
-              userId,
-              sessionId,
-              content: fullContent,
-              tags: ['assistant-reply'],
-              metadata: {
-                timestamp: new Date().toISOString(),
-                messageCount: validMessages.length,
-              },
-            });
-          } catch {}
+        send({ type: 'start', messageId: reply.messageId });
+
+        try {
+          for (let next = first; !next.done; next = await chunks.next()) {
+            const chunk = next.value;
+            if (chunk.type === 'usage') {
+              usage = chunk.usage;
+              continue;
+            }
+            forward(analyzer.push(chunk.text));
+          }
+          forward(analyzer.flush());
+          // A reply without an accepted marker stays at the current stage
+          if (tracksStages && (stageTo === null || checkStageMove(teaching, stageTo))) {
+            send({ type: 'stage', stage: teaching.stage, label: stageLabel(teaching.stage) });
+          }
         } catch (error) {
-          controller.error(error);
+          forward(analyzer.flush());
+          // Stopped by the learner: keep what was generated, marked as stopped
+          if (error instanceof GenerationAbortedError) {
+            await finish('stopped');
+            return;
+          }
+          console.error('AI stream error:', error);
+          send({ type: 'error', message: error instanceof Error ? error.message : 'Generation failed' });
+          // The partial reply stays in the chat, marked incomplete
+          await finish('incomplete');
+          return;
         }
+
+        send({ type: 'usage', ...replyUsage() });
+
+        // Store assistant reply with metadata for structured memory
+        const remembered = await mem0UpsertMemory({
+          userId,
+          sessionId,
+          content: fullContent,
+          tags: ['assistant-reply'],
+          metadata: {
+            timestamp: new Date().toISOString(),
+            messageCount: history.length,
+          },
+        });
+        if (remembered) send({ type: 'memory-updated' });
+
+        await finish('complete');
+      },
+
+      // The client went away; generation and saving carry on without it
+      cancel() {
+        detached = true;
       },
     });
 
@@ -291,6 +315,22 @@ export async function POST(req: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof ChatSchemaError || error instanceof TeachingStageError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof InterviewError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message, limit: error.limit, resetAt: error.resetAt.toISOString() },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+    // Stopped before the first token; nobody is waiting for this response (499: client closed request)
+    if (error instanceof GenerationAbortedError) {
+      return NextResponse.json({ error: error.message }, { status: 499 });
+    }
     console.error('AI API Error:', error);
     return new Response(JSON.stringify({
       error: 'Error processing your request',
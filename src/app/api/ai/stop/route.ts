@@ -0,0 +1,40 @@
+/**
+ * @dev Stop the reply being generated for a chat
+ * POST { chatId }. The upstream completion is aborted and the text generated
+ * so far is saved with a `stopped` marker.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { encodeEmail } from '@/lib/storage';
+import { getChat } from '@/lib/chats';
+import { stopReply } from '@/lib/reply-stream';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { chatId } = await req.json();
+    if (typeof chatId !== 'string' || !chatId) {
+      return NextResponse.json({ error: 'chatId is required' }, { status: 400 });
+    }
+
+    const emailKey = encodeEmail(session.user.email);
+    const result = await getChat(emailKey, chatId);
+    if (!result || result.data.userEmail !== session.user.email) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    const stopped = await stopReply(emailKey, chatId);
+    return NextResponse.json({ stopped });
+  } catch (error) {
+    console.error('Stop generation error:', error);
+    return NextResponse.json({ error: 'Failed to stop generation' }, { status: 500 });
+  }
+}
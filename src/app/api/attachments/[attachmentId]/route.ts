@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { readAttachment } from '@/lib/attachments';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { attachmentId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const variant = req.nextUrl.searchParams.get('variant') === 'thumb' ? 'thumb' : 'original';
+    const attachment = await readAttachment(session.user.email, params.attachmentId, variant);
+
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 });
+    }
+
+    // Ids are content hashes, so a given URL always serves the same bytes
+    return new Response(new Uint8Array(attachment.data), {
+      headers: {
+        'Content-Type': attachment.contentType,
+        'Content-Length': String(attachment.data.length),
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    return NextResponse.json({ error: 'Failed to fetch attachment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { storeAttachment, AttachmentValidationError } from '@/lib/attachments';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof Blob)) {
+      return NextResponse.json({ error: 'Missing file' }, { status: 400 });
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const name = file instanceof File ? file.name : 'image';
+    const { userEmail, ...attachment } = await storeAttachment(session.user.email, data, name);
+
+    return NextResponse.json(attachment, { status: 201 });
+  } catch (error) {
+    if (error instanceof AttachmentValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Attachment upload error:', error);
+    return NextResponse.json({ error: 'Failed to upload attachment' }, { status: 500 });
+  }
+}
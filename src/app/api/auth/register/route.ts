@@ -1,6 +1,12 @@
 import { NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
-import { encodeEmail, downloadJson, uploadJson, generateId } from "@/lib/azure-storage";
+import {
+  encodeEmail,
+  downloadJson,
+  uploadJson,
+  generateId,
+  PreconditionFailedError,
+} from "@/lib/storage";
 
 export async function POST(request: Request) {
   try {
@@ -25,19 +31,30 @@ export async function POST(request: Request) {
 
     const hashedPassword = await bcrypt.hash(password, 12);
 
-    await uploadJson(blobPath, {
-      _id: generateId(),
-      username,
-      email,
-      password: hashedPassword,
-      createdAt: new Date().toISOString(),
-    });
+    // If-None-Match guards against two registrations racing for the same email
+    await uploadJson(
+      blobPath,
+      {
+        _id: generateId(),
+        username,
+        email,
+        password: hashedPassword,
+        createdAt: new Date().toISOString(),
+      },
+      { ifNoneMatch: "*" }
+    );
 
     return NextResponse.json(
       { message: "Registration successful" },
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      return NextResponse.json(
+        { error: "Email already registered" },
+        { status: 400 }
+      );
+    }
     console.error("Registration error:", error);
     return NextResponse.json(
       { error: "Error creating user" },
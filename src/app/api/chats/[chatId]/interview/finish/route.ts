@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { encodeEmail } from '@/lib/storage';
+import { upsertChatIndexEntry } from '@/lib/chat-index';
+import { updateChat } from '@/lib/chats';
+import { toChatView } from '@/lib/chat-tree';
+import { getLLMProvider } from '@/lib/llm';
+import { enforceRateLimits, RateLimitError } from '@/lib/rate-limit';
+import { trackUsage } from '@/lib/usage';
+import { beginGrading, gradeInterview, InterviewError, InterviewGradingError } from '@/lib/interview';
+
+export const runtime = 'nodejs';
+
+/**
+ * End the chat's mock interview and grade it against the rubric. Called when
+ * the candidate ends the interview or when the countdown runs out.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  // Set once the interview is claimed, so a failure can hand it back
+  let gradingKey: string | null = null;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const emailKey = encodeEmail(session.user.email);
+    const userEmail = session.user.email;
+
+    await enforceRateLimits(emailKey);
+
+    // Claims the interview, so a second end request (another tab, the timer) is refused
+    const claimed = await updateChat(emailKey, params.chatId, (chat) => {
+      if (chat.userEmail !== userEmail || chat.deletedAt) return null;
+      beginGrading(chat);
+      return chat;
+    });
+    if (!claimed) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+    gradingKey = emailKey;
+
+    const provider = getLLMProvider();
+    const { debrief, usage } = await gradeInterview(provider, claimed.data, req.signal);
+    await trackUsage(userEmail, {
+      chatId: params.chatId,
+      kind: 'debrief',
+      provider: provider.name,
+      model: provider.model,
+      ...usage,
+    });
+
+    const result = await updateChat(emailKey, params.chatId, (chat) => {
+      if (!chat.interview) return null;
+      chat.interview = { ...chat.interview, status: 'completed', debrief };
+      chat.updatedAt = new Date().toISOString();
+      return chat;
+    });
+    if (!result) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+    gradingKey = null;
+
+    await upsertChatIndexEntry(emailKey, result.data);
+
+    return NextResponse.json(toChatView(result.data), { headers: { ETag: result.etag } });
+  } catch (error) {
+    // Hand the interview back so ending it can be retried
+    if (gradingKey) {
+      await updateChat(gradingKey, params.chatId, (chat) => {
+        if (chat.interview?.status !== 'grading') return null;
+        chat.interview.status = 'active';
+        delete chat.interview.endedAt;
+        return chat;
+      }).catch((revertError) => console.error('Failed to reopen interview:', revertError));
+    }
+    if (error instanceof InterviewError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message, limit: error.limit, resetAt: error.resetAt.toISOString() },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+    if (error instanceof InterviewGradingError) {
+      console.error('Interview grading error:', error);
+      return NextResponse.json({ error: 'The debrief could not be written. Try again.' }, { status: 502 });
+    }
+    console.error('Finish interview error:', error);
+    return NextResponse.json({ error: 'Failed to finish interview' }, { status: 500 });
+  }
+}
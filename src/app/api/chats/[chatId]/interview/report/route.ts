@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { encodeEmail } from '@/lib/storage';
+import { getChat } from '@/lib/chats';
+import { InterviewError, interviewReport } from '@/lib/interview';
+
+export const runtime = 'nodejs';
+
+/** The graded interview as a Markdown download */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const emailKey = encodeEmail(session.user.email);
+    const result = await getChat(emailKey, params.chatId);
+    if (!result || result.data.userEmail !== session.user.email || result.data.deletedAt) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    const report = interviewReport(result.data);
+    const interview = result.data.interview!;
+    const filename = `algosensei-interview-${interview.problem.id}-${interview.startedAt.slice(0, 10)}.md`;
+
+    return new Response(report, {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof InterviewError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Interview report error:', error);
+    return NextResponse.json({ error: 'Failed to export interview report' }, { status: 500 });
+  }
+}
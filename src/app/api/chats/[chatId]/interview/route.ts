@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { encodeEmail } from '@/lib/storage';
+import { upsertChatIndexEntry } from '@/lib/chat-index';
+import { updateChat } from '@/lib/chats';
+import { toChatView } from '@/lib/chat-tree';
+import {
+  INTERVIEW_DIFFICULTIES,
+  INTERVIEW_DURATIONS,
+  INTERVIEW_TOPICS,
+  InterviewError,
+  startInterview,
+  type InterviewDifficulty,
+  type InterviewTopic,
+} from '@/lib/interview';
+
+/**
+ * Start a mock interview: the server picks the problem and starts the clock.
+ * Body: `{ difficulty?, topic?, durationMinutes? }`, each optional.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body is not valid JSON' }, { status: 400 });
+    }
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+
+    const { difficulty, topic, durationMinutes } = body as Record<string, unknown>;
+    if (difficulty !== undefined && !(INTERVIEW_DIFFICULTIES as readonly unknown[]).includes(difficulty)) {
+      return NextResponse.json({ error: 'Unknown difficulty' }, { status: 400 });
+    }
+    if (topic !== undefined && !(INTERVIEW_TOPICS as readonly unknown[]).includes(topic)) {
+      return NextResponse.json({ error: 'Unknown topic' }, { status: 400 });
+    }
+    if (durationMinutes !== undefined && !(INTERVIEW_DURATIONS as unknown[]).includes(durationMinutes)) {
+      return NextResponse.json({ error: `Interviews last ${INTERVIEW_DURATIONS.join(', ')} minutes` }, { status: 400 });
+    }
+
+    const emailKey = encodeEmail(session.user.email);
+    const userEmail = session.user.email;
+
+    const result = await updateChat(emailKey, params.chatId, (chat) => {
+      if (chat.userEmail !== userEmail || chat.deletedAt) return null;
+      startInterview(chat, {
+        difficulty: difficulty as InterviewDifficulty | undefined,
+        topic: topic as InterviewTopic | undefined,
+        durationMinutes: durationMinutes as number | undefined,
+      });
+      chat.updatedAt = new Date().toISOString();
+      return chat;
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    await upsertChatIndexEntry(emailKey, result.data);
+
+    return NextResponse.json(toChatView(result.data), { headers: { ETag: result.etag } });
+  } catch (error) {
+    if (error instanceof InterviewError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Start interview error:', error);
+    return NextResponse.json({ error: 'Failed to start interview' }, { status: 500 });
+  }
+}
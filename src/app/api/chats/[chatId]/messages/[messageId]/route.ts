@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { encodeEmail } from '@/lib/storage';
+import { updateChat } from '@/lib/chats';
+import { ChatSchemaError } from '@/lib/chat-schema';
+import { selectVariant } from '@/lib/chat-variants';
+import { isReplyLive } from '@/lib/reply-stream';
+import { selectReplyStage, stageOfReply } from '@/lib/teaching-stages';
+import { getTutorMode } from '@/lib/tutor-modes';
+
+// Select which generated answer of a reply is shown and used as context
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { chatId: string; messageId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { activeVariant } = await req.json();
+    if (!Number.isInteger(activeVariant)) {
+      return NextResponse.json({ error: 'activeVariant must be an integer' }, { status: 400 });
+    }
+    if (isReplyLive(params.messageId)) {
+      return NextResponse.json({ error: 'This reply is still being generated' }, { status: 409 });
+    }
+
+    const emailKey = encodeEmail(session.user.email);
+    const userEmail = session.user.email;
+
+    const result = await updateChat(emailKey, params.chatId, (chat) => {
+      if (chat.userEmail !== userEmail || chat.deletedAt) return null;
+      const message = chat.messages.find((m) => m.id === params.messageId);
+      if (!message) return null;
+      selectVariant(message, activeVariant);
+      // The teaching stage follows the answer now shown
+      if (getTutorMode(chat.mode).stages) selectReplyStage(chat, message.id, stageOfReply(message.stage));
+      return chat;
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result.data.messages.find((m) => m.id === params.messageId));
+  } catch (error) {
+    if (error instanceof ChatSchemaError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Select variant error:', error);
+    return NextResponse.json({ error: 'Failed to update message' }, { status: 500 });
+  }
+}
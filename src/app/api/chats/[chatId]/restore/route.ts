@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { encodeEmail } from '@/lib/storage';
+import { upsertChatIndexEntry } from '@/lib/chat-index';
+import { updateChat } from '@/lib/chats';
+import { toChatView } from '@/lib/chat-tree';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { chatId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const emailKey = encodeEmail(session.user.email);
+    const userEmail = session.user.email;
+
+    const result = await updateChat(emailKey, params.chatId, (chat) => {
+      if (chat.userEmail !== userEmail) return null;
+      delete chat.deletedAt;
+      return chat;
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    await upsertChatIndexEntry(emailKey, result.data);
+
+    return NextResponse.json(toChatView(result.data), { headers: { ETag: result.etag } });
+  } catch (error) {
+    return NextResponse.json({ error: 'Failed to restore chat' }, { status: 500 });
+  }
+}
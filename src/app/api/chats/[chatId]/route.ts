@@ -1,43 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { getSessionId } from '@/lib/session';
-import {
-  encodeEmail,
-  downloadJson,
-  uploadJson,
-  deleteBlob,
-} from '@/lib/azure-storage';
-
-interface StoredChat {
-  _id: string;
-  userEmail: string;
-  sessionId: string | null;
-  title: string;
-  messages: unknown[];
-  createdAt: string;
-  updatedAt: string;
-}
+import { authOptions } from '@/lib/auth-options';
+import { encodeEmail, PreconditionFailedError } from '@/lib/storage';
+import { upsertChatIndexEntry } from '@/lib/chat-index';
+import { purgeChat } from '@/lib/chat-trash';
+import { getChat, updateChat } from '@/lib/chats';
+import { ChatSchemaError } from '@/lib/chat-schema';
+import { settleStaleReplies } from '@/lib/reply-stream';
+import { selectBranch, toChatView } from '@/lib/chat-tree';
+import { isTutorMode } from '@/lib/tutor-modes';
+import { InterviewError } from '@/lib/interview';
 
 export async function GET(
   req: NextRequest,
   { params }: { params: { chatId: string } }
 ) {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
     if (!session?.user?.email) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const emailKey = encodeEmail(session.user.email);
-    const chat = await downloadJson<StoredChat>(
-      `chats/${emailKey}/${params.chatId}.json`
-    );
+    const result = await getChat(emailKey, params.chatId);
 
-    if (!chat || chat.userEmail !== session.user.email) {
+    // Trashed chats are only reachable through the trash view
+    if (!result || result.data.userEmail !== session.user.email || result.data.deletedAt) {
       return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
     }
 
-    return NextResponse.json(chat);
+    // Only the branch being shown is sent; replies whose generation died show up as incomplete
+    return NextResponse.json(toChatView(settleStaleReplies(result.data)), { headers: { ETag: result.etag } });
   } catch (error) {
     return NextResponse.json({ error: 'Failed to fetch chat' }, { status: 500 });
   }
@@ -48,42 +41,74 @@ export async function PATCH(
   { params }: { params: { chatId: string } }
 ) {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
     if (!session?.user?.email) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { title, message } = await req.json();
+    // Messages are only appended by /api/ai, which owns the conversation history;
+    // `activeMessageId` switches to the branch through that message
+    const { title, tags, activeMessageId, mode } = await req.json();
+    if (mode !== undefined && !isTutorMode(mode)) {
+      return NextResponse.json({ error: 'Unknown tutoring mode' }, { status: 400 });
+    }
     const emailKey = encodeEmail(session.user.email);
-    const blobPath = `chats/${emailKey}/${params.chatId}.json`;
-    const sessionId = getSessionId();
+    const userEmail = session.user.email;
+
+    // Conditional read-modify-write; concurrent appends are retried against the latest version
+    const result = await updateChat(
+      emailKey,
+      params.chatId,
+      (chat) => {
+        if (chat.userEmail !== userEmail || chat.deletedAt) return null;
+
+        chat.updatedAt = new Date().toISOString();
+
+        if (title) {
+          chat.title = title;
+        }
+
+        if (Array.isArray(tags)) {
+          chat.tags = tags.filter((tag: unknown): tag is string => typeof tag === 'string');
+        }
+
+        if (typeof activeMessageId === 'string') {
+          selectBranch(chat, activeMessageId);
+        }
+
+        // Takes effect from the next reply; earlier replies keep the mode they were written in
+        if (mode !== undefined && mode !== chat.mode) {
+          if (chat.interview?.status === 'active') {
+            throw new InterviewError('End the interview before switching modes');
+          }
+          chat.mode = mode;
+        }
+
+        return chat;
+      },
+      { ifMatch: req.headers.get('if-match') ?? undefined }
+    );
 
-    // Read current state
-    const chat = await downloadJson<StoredChat>(blobPath);
-    if (!chat || chat.userEmail !== session.user.email) {
+    if (!result) {
       return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
     }
 
-    // Modify in memory
-    chat.updatedAt = new Date().toISOString();
+    await upsertChatIndexEntry(emailKey, result.data);
 
-    if (title) {
-      chat.title = title;
+    return NextResponse.json(toChatView(result.data), { headers: { ETag: result.etag } });
+  } catch (error) {
+    if (error instanceof ChatSchemaError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
     }
-
-    if (message) {
-      const enrichedMessage = {
-        ...message,
-        sessionId: sessionId || null,
-      };
-      (chat.messages as unknown[]).push(enrichedMessage);
+    if (error instanceof InterviewError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof PreconditionFailedError) {
+      return NextResponse.json(
+        { error: 'Chat was modified by another request. Reload and try again.' },
+        { status: 409 }
+      );
     }
-
-    // Write back
-    await uploadJson(blobPath, chat);
-
-    return NextResponse.json(chat);
-  } catch (error) {
     console.error('Update chat error:', error);
     return NextResponse.json({ error: 'Failed to update chat' }, { status: 500 });
   }
@@ -94,21 +119,39 @@ export async function DELETE(
   { params }: { params: { chatId: string } }
 ) {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
     if (!session?.user?.email) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const emailKey = encodeEmail(session.user.email);
-    const deleted = await deleteBlob(
-      `chats/${emailKey}/${params.chatId}.json`
-    );
+    const userEmail = session.user.email;
+
+    // ?permanent=true skips the trash (used by "Delete forever")
+    if (req.nextUrl.searchParams.get('permanent') === 'true') {
+      const existing = await getChat(emailKey, params.chatId);
+      if (!existing || existing.data.userEmail !== userEmail) {
+        return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
+      }
 
-    if (!deleted) {
+      await purgeChat(emailKey, params.chatId);
+      return NextResponse.json({ success: true });
+    }
+
+    // Soft delete: the chat moves to the trash and keeps its content until purged
+    const result = await updateChat(emailKey, params.chatId, (chat) => {
+      if (chat.userEmail !== userEmail) return null;
+      if (!chat.deletedAt) chat.deletedAt = new Date().toISOString();
+      return chat;
+    });
+
+    if (!result) {
       return NextResponse.json({ error: 'Chat not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ success: true });
+    await upsertChatIndexEntry(emailKey, result.data);
+
+    return NextResponse.json({ success: true, deletedAt: result.data.deletedAt });
   } catch (error) {
     return NextResponse.json({ error: 'Failed to delete chat' }, { status: 500 });
   }
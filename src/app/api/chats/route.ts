@@ -2,41 +2,41 @@ import { NextRequest, NextResponse } from 'next/server';
 
 export const runtime = 'nodejs';
 import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
 import { getSessionId } from '@/lib/session';
 import {
   encodeEmail,
   generateId,
   uploadJson,
-  listJsonBlobs,
-} from '@/lib/azure-storage';
+} from '@/lib/storage';
+import { listChatIndex, upsertChatIndexEntry } from '@/lib/chat-index';
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from '@/lib/chat-trash';
+import { chatBlobPath } from '@/lib/chats';
+import { createChat } from '@/lib/chat-schema';
+import { isTutorMode } from '@/lib/tutor-modes';
 
-interface StoredChat {
-  _id: string;
-  userEmail: string;
-  sessionId: string | null;
-  title: string;
-  messages: unknown[];
-  createdAt: string;
-  updatedAt: string;
-}
-
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
     if (!session?.user?.email) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const emailKey = encodeEmail(session.user.email);
-    const userChats = await listJsonBlobs<StoredChat>(`chats/${emailKey}/`);
+    const cursor = req.nextUrl.searchParams.get('cursor');
+    const limit = Number(req.nextUrl.searchParams.get('limit')) || undefined;
+    const trashed = req.nextUrl.searchParams.get('trash') === 'true';
+
+    // Best effort and off the request path; the scheduled job (pnpm trash:purge) covers everyone else
+    purgeExpiredTrash(emailKey).catch((error) => console.error('Trash purge error:', error));
 
-    // Sort by updatedAt descending (most recent first)
-    userChats.sort(
-      (a, b) =>
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    );
+    // Served from the per-user index, most recent first
+    const page = await listChatIndex(emailKey, { cursor, limit, trashed });
 
-    return NextResponse.json(userChats);
+    if (trashed) {
+      return NextResponse.json({ ...page, retentionDays: TRASH_RETENTION_DAYS });
+    }
+    return NextResponse.json(page);
   } catch (error) {
     return NextResponse.json({ error: 'Failed to fetch chats' }, { status: 500 });
   }
@@ -44,30 +44,33 @@ export async function GET() {
 
 export async function POST(req: NextRequest) {
   try {
-    const session = await getServerSession();
+    const session = await getServerSession(authOptions);
     if (!session?.user?.email) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { title } = await req.json();
+    const { title, mode } = await req.json();
+    if (mode !== undefined && !isTutorMode(mode)) {
+      return NextResponse.json({ error: 'Unknown tutoring mode' }, { status: 400 });
+    }
     const sessionId = getSessionId();
     const chatId = generateId();
     const emailKey = encodeEmail(session.user.email);
-    const now = new Date().toISOString();
 
-    const newChat: StoredChat = {
+    const newChat = createChat({
       _id: chatId,
       userEmail: session.user.email,
       sessionId: sessionId || null,
       title: title || 'New Discussion',
-      messages: [],
-      createdAt: now,
-      updatedAt: now,
-    };
+    });
+    if (mode) newChat.mode = mode;
 
-    await uploadJson(`chats/${emailKey}/${chatId}.json`, newChat);
+    const etag = await uploadJson(chatBlobPath(emailKey, chatId), newChat, {
+      ifNoneMatch: '*',
+    });
+    await upsertChatIndexEntry(emailKey, newChat);
 
-    return NextResponse.json(newChat);
+    return NextResponse.json(newChat, { headers: { ETag: etag } });
   } catch (error) {
     return NextResponse.json({ error: 'Failed to create chat' }, { status: 500 });
   }
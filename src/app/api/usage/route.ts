@@ -0,0 +1,37 @@
+/**
+ * @dev Token usage of the signed-in user
+ * GET ?days=30 — per-day, per-model and per-chat totals with estimated cost
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth-options';
+import { encodeEmail } from '@/lib/storage';
+import { getChatIndexEntries } from '@/lib/chat-index';
+import { getUserUsage } from '@/lib/usage';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const days = Number(req.nextUrl.searchParams.get('days')) || 30;
+    const [report, entries] = await Promise.all([
+      getUserUsage(session.user.email, days),
+      getChatIndexEntries(encodeEmail(session.user.email)),
+    ]);
+
+    // Chats that were deleted since keep their usage but lose their title
+    const titles = new Map(entries.map((entry) => [entry._id, entry.title]));
+    const chats = report.chats.map((chat) => ({ ...chat, title: titles.get(chat.chatId) ?? null }));
+
+    return NextResponse.json({ ...report, chats });
+  } catch (error) {
+    console.error('Usage report error:', error);
+    return NextResponse.json({ error: 'Failed to load usage' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * @dev Account settings page
+ * Features: authentication check, token usage (and all users' usage for admins),
+ * account data export/import, account deletion
+ */
+
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { ChevronLeftIcon } from 'lucide-react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import UsageSection from '@/components/settings/UsageSection';
+import AdminUsageSection from '@/components/settings/AdminUsageSection';
+import AccountDataSection from '@/components/settings/AccountDataSection';
+import DeleteAccountSection from '@/components/settings/DeleteAccountSection';
+
+/**
+ * @dev Settings page component
+ * Redirects to login if user is not authenticated
+ */
+export default function SettingsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/login');
+    }
+  }, [status, router]);
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-gray-500">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="min-h-screen bg-gray-50">
+        <div className="mx-auto max-w-3xl px-4 py-8 space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold bg-gradient-to-r from-indigo-500 to-purple-600 bg-clip-text text-transparent">
+                Settings
+              </h1>
+              <p className="text-sm text-gray-500">{session?.user?.email}</p>
+            </div>
+            <Link
+              href="/dashboard"
+              className="flex items-center gap-1 rounded-lg border bg-white px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-50"
+            >
+              <ChevronLeftIcon size={16} />
+              Back to chats
+            </Link>
+          </div>
+
+          <UsageSection />
+          <AdminUsageSection />
+          <AccountDataSection />
+          <DeleteAccountSection />
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
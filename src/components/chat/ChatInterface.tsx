@@ -1,7 +1,9 @@
 /**
  * @dev Main chat interface with image upload, visual quick-starts, and hint system
  * Features: multimodal messaging, SVG/Mermaid rendering, progressive hints,
- * visual learning mode templates, drag-drop image support
+ * visual learning mode templates, drag-drop image support, typed AI event stream,
+ * per-chat tutoring modes (Socratic, Quick Explain, Code Review, Mock Interview),
+ * timed mock interviews with a scored debrief, teaching stage progress bar
  */
 
 'use client';
@@ -10,12 +12,23 @@ import { cn } from '@/lib/utils';
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import {
-  ArrowUpIcon, Code2, Lightbulb, MessageSquare, Sparkles,
+  ArrowUpIcon, Square, RefreshCw, ChevronLeft, ChevronRight, Pencil, Code2, Lightbulb, MessageSquare, Sparkles,
   Bot, User, ImagePlus, X, Eye, HelpCircle,
-  TreePine, GitBranch, Layers, BarChart3
+  TreePine, GitBranch, Layers, BarChart3, AlertCircle
 } from 'lucide-react';
 import { AutoResizeTextarea } from '@/components/ui/auto-resize-textarea';
 import { ImageAttachment } from '@/components/chat/ImageUpload';
+import { formatStage, readAiEventStream, type DiagramKind } from '@/lib/ai-events';
+import { getTutorMode, TUTOR_MODES, type TutorMode } from '@/lib/tutor-modes';
+import type { InterviewSession, TeachingState } from '@/lib/chat-schema';
+import { stageLabel, teachingStateOf } from '@/lib/teaching-stages';
+import { StageProgress } from '@/components/chat/StageProgress';
+import {
+  InterviewBar,
+  InterviewDebriefCard,
+  InterviewStartForm,
+  type InterviewStartOptions,
+} from '@/components/chat/InterviewPanel';
 import dynamic from 'next/dynamic';
 
 const MarkdownRenderer = dynamic(
@@ -40,7 +53,15 @@ interface Message {
   stage?: string;
   createdAt: Date;
   isLoading?: boolean;
-  images?: string[]; // base64 image URLs for display
+  images?: string[]; // base64 image URLs for display (local preview / legacy messages)
+  attachmentIds?: string[]; // stored attachments, resolved server-side
+  drawing?: DiagramKind; // diagram currently being streamed
+  error?: string; // generation failed; content may be partial
+  status?: 'streaming' | 'incomplete' | 'stopped'; // stored reply still generating / cut short / stopped by the learner
+  variants?: { content: string; stage?: string; status?: Message['status'] }[]; // regenerated answers
+  activeVariant?: number; // selected entry in variants
+  parentId?: string | null; // message this one follows in the chat's message tree
+  branch?: { index: number; count: number; siblingIds: string[] }; // set where the conversation forks
 }
 
 interface Chat {
@@ -48,6 +69,9 @@ interface Chat {
   title: string;
   messages: Message[];
   userEmail: string;
+  mode?: TutorMode;
+  interview?: InterviewSession;
+  teaching?: TeachingState;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -87,6 +111,9 @@ const QUICK_STARTS = [
   },
 ];
 
+// Languages offered by the code panel (Code Review and Mock Interview modes)
+const CODE_LANGUAGES = ['python', 'javascript', 'typescript', 'java', 'cpp', 'c', 'csharp', 'go', 'rust', 'kotlin'];
+
 /* ------------------------------------------------------------------ */
 /*  Utility: file → base64                                             */
 /* ------------------------------------------------------------------ */
@@ -103,10 +130,69 @@ function fileToBase64(file: File): Promise<string> {
   });
 }
 
+/* ------------------------------------------------------------------ */
+/*  Utility: upload an attachment, returning its stored id             */
+/* ------------------------------------------------------------------ */
+
+async function uploadAttachment(img: ImageAttachment): Promise<string> {
+  const blob = await (await fetch(img.base64)).blob();
+  const formData = new FormData();
+  formData.append('file', blob, img.name);
+  const response = await fetch('/api/attachments', { method: 'POST', body: formData });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: undefined }));
+    throw new Error(error || 'Failed to upload image');
+  }
+  const { _id } = await response.json();
+  return _id;
+}
+
+function attachmentUrl(id: string, variant: 'original' | 'thumb' = 'original'): string {
+  return variant === 'thumb' ? `/api/attachments/${id}?variant=thumb` : `/api/attachments/${id}`;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Utility: rate limits                                               */
+/* ------------------------------------------------------------------ */
+
+// /api/ai answered 429: the learner is over a limit until `resetAt`
+class RateLimitedError extends Error {
+  constructor(message: string, public readonly resetAt: Date) {
+    super(message);
+    this.name = 'RateLimitedError';
+  }
+}
+
+interface LimitNotice {
+  message: string;
+  resetAt: Date;
+}
+
+// /api/ai answered 409: the turn breaks a rule of the chat, e.g. the interview's time is up
+class TurnRefusedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TurnRefusedError';
+  }
+}
+
+function formatResetTime(resetAt: Date): string {
+  if (resetAt.getTime() - Date.now() <= 60_000) return 'in under a minute';
+  return `at ${resetAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+}
+
 /* ------------------------------------------------------------------ */
 /*  Component                                                          */
 /* ------------------------------------------------------------------ */
 
+const MAX_RESUME_ATTEMPTS = 3;
+
+// The assistant message a stream is writing into; the id changes once the server assigns one
+interface ReplyTarget {
+  id: string;
+  content: string;
+}
+
 const LOADING_STAGES = [
   'Understanding your question...',
   'Thinking about the best approach...',
@@ -124,11 +210,30 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
   const [loadingStage, setLoadingStage] = useState<string>('');
   const [imageAttachments, setImageAttachments] = useState<ImageAttachment[]>([]);
   const [dragOver, setDragOver] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [limitNotice, setLimitNotice] = useState<LimitNotice | null>(null);
+  const [codeOpen, setCodeOpen] = useState(false);
+  const [codeText, setCodeText] = useState('');
+  const [codeLanguage, setCodeLanguage] = useState(CODE_LANGUAGES[0]);
+  const [interviewBusy, setInterviewBusy] = useState(false);
+  const [interviewNotice, setInterviewNotice] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Aborts the request streaming the current reply (Stop button)
+  const replyAbortRef = useRef<AbortController | null>(null);
+  // The assistant message that request is writing into
+  const replyTargetRef = useRef<ReplyTarget | null>(null);
   const searchParams = useSearchParams();
   const router = useRouter();
   const chatId = searchParams.get('chatId');
+  const mode = getTutorMode(currentChat?.mode);
+  const interview = currentChat?.interview;
+  const interviewActive = interview?.status === 'active';
+  const remainingMs = interview ? new Date(interview.endsAt).getTime() - now : 0;
+  // Set once the countdown has ended the interview, so a failed attempt is not retried every second
+  const autoEndedRef = useRef<string | null>(null);
 
   /* ----- Loading stage rotation ----- */
   useEffect(() => {
@@ -142,6 +247,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
     }
   }, [isThinking]);
 
+  /* ----- Rate-limit notice, cleared once the limit resets ----- */
+  useEffect(() => {
+    if (!limitNotice) return;
+    const timeout = setTimeout(() => setLimitNotice(null), Math.max(0, limitNotice.resetAt.getTime() - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [limitNotice]);
+
+  /* ----- Interview countdown ----- */
+  useEffect(() => {
+    if (!interviewActive) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [interviewActive]);
+
   /* ----- Scroll to bottom on new messages ----- */
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -165,6 +285,149 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
     }
   }, []);
 
+  /* ----- Reply streaming ----- */
+  // Apply an AI event stream to the target message; true once `done` arrived, false if the connection dropped
+  const applyReplyStream = useCallback(async (body: ReadableStream<Uint8Array>, target: ReplyTarget) => {
+    let finished = false;
+    const update = (changes: Partial<Message>) => {
+      setMessages(prev => prev.map(msg =>
+        msg.id === target.id ? { ...msg, ...changes } : msg
+      ));
+    };
+
+    try {
+      await readAiEventStream(body, (event) => {
+        switch (event.type) {
+          case 'start':
+            update({ id: event.messageId });
+            target.id = event.messageId;
+            break;
+          case 'token':
+            target.content += event.text;
+            update({ content: target.content, isLoading: false });
+            break;
+          case 'stage':
+            update({ stage: formatStage(event.stage, event.label) });
+            // The server only sends stages it accepted; a granted skip is used up once reached
+            setCurrentChat(prev => {
+              if (!prev) return prev;
+              const teaching = { ...teachingStateOf(prev), stage: event.stage };
+              if (teaching.skipTo && event.stage >= teaching.skipTo) delete teaching.skipTo;
+              return { ...prev, teaching };
+            });
+            break;
+          case 'diagram-start':
+            update({ drawing: event.kind });
+            break;
+          case 'diagram-end':
+            update({ drawing: undefined });
+            break;
+          case 'error':
+            update({ isLoading: false, drawing: undefined, error: event.message, status: 'incomplete' });
+            break;
+          case 'done':
+            finished = true;
+            if (event.reason === 'complete') update({ isLoading: false, status: undefined });
+            if (event.reason === 'stopped') update({ isLoading: false, drawing: undefined, status: 'stopped' });
+            break;
+        }
+      });
+    } catch (error) {
+      console.warn('Reply stream dropped:', error);
+    }
+    return finished;
+  }, []);
+
+  // Pick a reply back up after a dropped connection or a page reload; the server kept generating it
+  const resumeReply = useCallback(async (id: string, target: ReplyTarget, signal?: AbortSignal) => {
+    for (let attempt = 0; attempt < MAX_RESUME_ATTEMPTS; attempt++) {
+      if (attempt > 0) await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+      if (signal?.aborted) return;
+      try {
+        const params = new URLSearchParams({ chatId: id, messageId: target.id, offset: String(target.content.length) });
+        const response = await fetch(`/api/ai/resume?${params}`, { cache: 'no-store', signal });
+        if (response.status === 404) break;
+        if (response.ok && response.body && await applyReplyStream(response.body, target)) return;
+      } catch (error) {
+        if (signal?.aborted) return;
+        console.warn('Failed to resume reply:', error);
+      }
+    }
+    if (signal?.aborted) return;
+    setMessages(prev => prev.map(msg =>
+      msg.id === target.id
+        ? { ...msg, isLoading: false, drawing: undefined, status: 'incomplete', error: 'Lost the connection to the tutor' }
+        : msg
+    ));
+  }, [applyReplyStream]);
+
+  /* ----- Stop generation ----- */
+  // Abort the stream and ask the server to abort the upstream completion; the partial reply is kept as stopped
+  const handleStop = async () => {
+    const target = replyTargetRef.current;
+    replyAbortRef.current?.abort();
+    replyAbortRef.current = null;
+    if (target) {
+      setMessages(prev => prev.map(msg =>
+        msg.id === target.id ? { ...msg, isLoading: false, drawing: undefined, status: 'stopped' } : msg
+      ));
+    }
+    setIsThinking(false);
+
+    if (!chatId) return;
+    try {
+      await fetch('/api/ai/stop', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chatId }),
+      });
+    } catch (error) {
+      console.error('Failed to stop generation:', error);
+    }
+  };
+
+  // Stream a reply (fresh or resumed) under an abort controller the Stop button can reach
+  const trackReply = useCallback(async (target: ReplyTarget, run: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+    replyTargetRef.current = target;
+    try {
+      await run(controller.signal);
+    } finally {
+      if (replyAbortRef.current === controller) {
+        replyAbortRef.current = null;
+        replyTargetRef.current = null;
+      }
+    }
+  }, []);
+
+  // Ask /api/ai for a reply and stream it into the target, resuming if the connection drops
+  const requestReply = async (payload: Record<string, unknown>, target: ReplyTarget) => {
+    await trackReply(target, async (signal) => {
+      const response = await fetch('/api/ai', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chatId, ...payload }),
+        signal,
+      });
+
+      if (response.status === 429) {
+        const { error, resetAt } = await response.json().catch(() => ({}));
+        throw new RateLimitedError(error || 'Too many requests', new Date(resetAt || Date.now() + 60_000));
+      }
+      if (response.status === 409) {
+        const { error } = await response.json().catch(() => ({}));
+        throw new TurnRefusedError(error || 'This message cannot be sent');
+      }
+      if (!response.ok || !response.body) throw new Error('Failed to get AI response');
+
+      // A dropped connection resumes; a stopped one does not
+      if (!await applyReplyStream(response.body, target) && !signal.aborted && chatId) {
+        await resumeReply(chatId, target, signal);
+      }
+    });
+  };
+
   /* ----- Chat fetching ----- */
   const fetchChat = useCallback(async (id: string) => {
     setIsFetchingChat(true);
@@ -174,6 +437,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
         const chat = await response.json();
         setCurrentChat(chat);
         setMessages(chat.messages || []);
+
+        // A reply still being generated (e.g. the tab was closed mid-answer) continues streaming
+        const last: Message | undefined = chat.messages?.[chat.messages.length - 1];
+        if (last?.role === 'assistant' && last.status === 'streaming') {
+          setIsThinking(true);
+          const target = { id: last.id, content: typeof last.content === 'string' ? last.content : '' };
+          trackReply(target, signal => resumeReply(id, target, signal))
+            .finally(() => setIsThinking(false));
+        }
       } else {
         if (response.status === 404) router.push('/dashboard');
       }
@@ -182,7 +454,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
     } finally {
       setIsFetchingChat(false);
     }
-  }, [router]);
+  }, [router, resumeReply, trackReply]);
 
   useEffect(() => {
     if (chatId) {
@@ -264,6 +536,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
   /* ----- Get images from a message for display ----- */
   const getMessageImages = (msg: Message): string[] => {
     if (msg.images) return msg.images;
+    if (msg.attachmentIds?.length) return msg.attachmentIds.map(id => attachmentUrl(id, 'thumb'));
     if (Array.isArray(msg.content)) {
       return msg.content
         .filter(p => p.type === 'image_url')
@@ -274,36 +547,27 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
   };
 
   /* ----- Submit message ----- */
-  const handleSubmit = async (e: React.FormEvent, overrideInput?: string) => {
+  // `hint` marks a mock interview hint request; the server counts it against the score.
+  // `stage` is a teaching stage picked on the progress bar
+  const handleSubmit = async (
+    e: React.FormEvent,
+    overrideInput?: string,
+    options: { hint?: boolean; stage?: number } = {}
+  ) => {
     e.preventDefault();
-    const text = overrideInput || input.trim();
+    // Code from the code panel is sent as a fenced block after the message
+    const code = overrideInput || !mode.codeInput ? '' : codeText.trim();
+    const typed = overrideInput || input.trim();
+    const text = [typed, code && `\`\`\`${codeLanguage}\n${code}\n\`\`\``].filter(Boolean).join('\n\n');
     if ((!text && imageAttachments.length === 0) || !chatId) return;
 
-    // Build multimodal content if images are attached
-    const hasImages = imageAttachments.length > 0;
-    let messageContent: string | MessageContentPart[];
-    const displayImages: string[] = [];
-
-    if (hasImages) {
-      const parts: MessageContentPart[] = [];
-      if (text) {
-        parts.push({ type: 'text', text });
-      }
-      for (const img of imageAttachments) {
-        parts.push({
-          type: 'image_url',
-          image_url: { url: img.base64 },
-        });
-        displayImages.push(img.base64);
-      }
-      messageContent = parts;
-    } else {
-      messageContent = text;
-    }
+    // Keep base64 copies for the immediate preview; the stored message references uploaded attachments
+    const pendingImages = imageAttachments;
+    const displayImages = pendingImages.map(img => img.base64);
 
     const newMessage: Message = {
       id: Date.now().toString(),
-      content: messageContent,
+      content: text,
       role: 'user',
       createdAt: new Date(),
       images: displayImages.length > 0 ? displayImages : undefined,
@@ -311,6 +575,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
 
     setInput('');
     setImageAttachments([]);
+    if (code) {
+      setCodeText('');
+      setCodeOpen(false);
+    }
     setMessages(prev => [...prev, newMessage]);
 
     const aiMessage: Message = {
@@ -322,8 +590,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
     };
 
     try {
-      // Update chat title on first message
-      if (messages.length === 0) {
+      // Upload attachments (deduplicated server-side by content hash)
+      if (pendingImages.length > 0) {
+        newMessage.attachmentIds = await Promise.all(pendingImages.map(uploadAttachment));
+        setMessages(prev => prev.map(msg =>
+          msg.id === newMessage.id ? { ...msg, attachmentIds: newMessage.attachmentIds } : msg
+        ));
+      }
+
+      // Update chat title on first message; interviews are titled after their problem
+      if (messages.length === 0 && mode.id !== 'mock-interview') {
         const title = generateChatTitle(text);
         const titleResponse = await fetch(`/api/chats/${chatId}`, {
           method: 'PATCH',
@@ -335,77 +611,304 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
         }
       }
 
-      // Save user message
-      const saveResponse = await fetch(`/api/chats/${chatId}`, {
+      setIsThinking(true);
+      setMessages(prev => [...prev, aiMessage]);
+
+      const target: ReplyTarget = { id: aiMessage.id, content: '' };
+      // The server builds the history from storage and stores this turn together with the reply
+      await requestReply({
+        message: {
+          id: newMessage.id,
+          content: newMessage.content,
+          attachmentIds: newMessage.attachmentIds,
+        },
+        ...(options.hint && { hint: true }),
+        ...(options.stage !== undefined && { stage: options.stage }),
+      }, target);
+
+      // Both turns were saved by /api/ai; failed replies are stored as incomplete
+      window.dispatchEvent(new CustomEvent('chatUpdated'));
+      // Pick up the hint count or stage state the server recorded
+      if (options.hint || options.stage !== undefined) await refreshMessages();
+
+      setIsThinking(false);
+    } catch (error) {
+      // Stopped before the reply started streaming; handleStop already marked it
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        setIsThinking(false);
+        return;
+      }
+      // Rejected before the server stored the turn: take it back so it can be sent later
+      if (error instanceof RateLimitedError || error instanceof TurnRefusedError) {
+        if (error instanceof RateLimitedError) setLimitNotice({ message: error.message, resetAt: error.resetAt });
+        else setInterviewNotice(error.message);
+        setMessages(prev => prev.filter(msg => msg.id !== newMessage.id && msg.id !== aiMessage.id));
+        if (!overrideInput) setInput(typed);
+        if (code) {
+          setCodeText(code);
+          setCodeOpen(true);
+        }
+        setImageAttachments(pendingImages);
+        setIsThinking(false);
+        return;
+      }
+      console.error('Failed to process message:', error);
+      setMessages(prev => {
+        const last = prev[prev.length - 1];
+        if (last?.id === aiMessage.id) return prev.slice(0, -1);
+        return prev;
+      });
+      setIsThinking(false);
+    }
+  };
+
+  // Reload the branch being shown (ids, variants and fork points come from the server);
+  // errors of replies that just failed are kept on screen
+  const refreshMessages = async () => {
+    if (!chatId) return;
+    const response = await fetch(`/api/chats/${chatId}`, { cache: 'no-store' });
+    if (!response.ok) return;
+    const chat = await response.json();
+    setCurrentChat(chat);
+    setMessages(prev => (chat.messages as Message[]).map(msg => {
+      const local = prev.find(p => p.id === msg.id);
+      return local?.error ? { ...msg, error: local.error } : msg;
+    }));
+  };
+
+  /* ----- Regenerate & answer variants ----- */
+  const handleRegenerate = async (message: Message) => {
+    if (!chatId || isThinking) return;
+
+    // Mirror the server: the current answer becomes a variant and a new, empty one is selected
+    setMessages(prev => prev.map(msg => {
+      if (msg.id !== message.id) return msg;
+      const variants = msg.variants ?? [{ content: getMessageText(msg), stage: msg.stage, status: msg.status }];
+      return {
+        ...msg,
+        variants: [...variants, { content: '', status: 'streaming' as const }],
+        activeVariant: variants.length,
+        content: '',
+        stage: undefined,
+        status: 'streaming',
+        error: undefined,
+        isLoading: true,
+      };
+    }));
+    setIsThinking(true);
+
+    try {
+      await requestReply({ regenerate: message.id }, { id: message.id, content: '' });
+      // Pick up the stored variants so the switcher shows the final answers
+      await refreshMessages();
+    } catch (error) {
+      if (error instanceof RateLimitedError) {
+        setLimitNotice({ message: error.message, resetAt: error.resetAt });
+        await refreshMessages();
+      } else if (error instanceof TurnRefusedError) {
+        setInterviewNotice(error.message);
+        await refreshMessages();
+      } else if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Failed to regenerate reply:', error);
+        setMessages(prev => prev.map(msg =>
+          msg.id === message.id ? { ...msg, isLoading: false, error: 'Could not regenerate this reply' } : msg
+        ));
+      }
+    } finally {
+      setIsThinking(false);
+    }
+  };
+
+  // Switch the answer shown (and used as context for later turns)
+  const handleSelectVariant = async (message: Message, index: number) => {
+    if (!chatId || isThinking) return;
+    try {
+      const response = await fetch(`/api/chats/${chatId}/messages/${message.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: {
-            ...newMessage,
-            // Store text-only version for persistence (images are large)
-            content: text,
-            images: displayImages.length > 0 ? displayImages.slice(0, 1) : undefined,
-          }
-        })
+        body: JSON.stringify({ activeVariant: index }),
       });
+      if (!response.ok) throw new Error('Failed to switch answer');
+      const updated = await response.json();
+      setMessages(prev => prev.map(msg =>
+        msg.id === message.id ? { ...msg, ...updated, stage: updated.stage, status: updated.status, error: undefined } : msg
+      ));
+      // Switching the latest answer can move the teaching stage; pick it up with the chat
+      if (messages[messages.length - 1]?.id === message.id) await refreshMessages();
+    } catch (error) {
+      console.error('Failed to switch answer:', error);
+    }
+  };
 
-      if (!saveResponse.ok) throw new Error('Failed to save message');
+  /* ----- Edit & branches ----- */
+  // Re-run the tutor from an edited copy of an earlier message; the original branch is kept
+  const handleEditSubmit = async (message: Message) => {
+    const text = editText.trim();
+    if (!chatId || isThinking || !text) return;
 
-      setIsThinking(true);
-      setMessages(prev => [...prev, aiMessage]);
+    const edited: Message = { ...message, id: Date.now().toString(), content: text, branch: undefined, createdAt: new Date() };
+    const aiMessage: Message = {
+      id: (Date.now() + 1).toString(),
+      content: '',
+      role: 'assistant',
+      createdAt: new Date(),
+      isLoading: true,
+    };
+    setMessages(prev => {
+      const index = prev.findIndex(msg => msg.id === message.id);
+      return [...prev.slice(0, index < 0 ? prev.length : index), edited, aiMessage];
+    });
+    setEditingId(null);
+    setIsThinking(true);
 
-      // Build messages for AI including multimodal content
-      const aiMessages = messages.concat(newMessage).map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      }));
+    try {
+      await requestReply({
+        edit: message.id,
+        message: { id: edited.id, content: text, attachmentIds: message.attachmentIds },
+      }, { id: aiMessage.id, content: '' });
+      await refreshMessages();
+      window.dispatchEvent(new CustomEvent('chatUpdated'));
+    } catch (error) {
+      if (error instanceof RateLimitedError) {
+        setLimitNotice({ message: error.message, resetAt: error.resetAt });
+        await refreshMessages();
+      } else if (error instanceof TurnRefusedError) {
+        setInterviewNotice(error.message);
+        await refreshMessages();
+      } else if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Failed to edit message:', error);
+        await refreshMessages();
+      }
+    } finally {
+      setIsThinking(false);
+    }
+  };
 
-      const response = await fetch('/api/ai', {
-        method: 'POST',
+  // Show another branch at a fork point
+  const handleSelectBranch = async (messageId: string) => {
+    if (!chatId || isThinking) return;
+    try {
+      const response = await fetch(`/api/chats/${chatId}`, {
+        method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: aiMessages })
+        body: JSON.stringify({ activeMessageId: messageId }),
       });
+      if (!response.ok) throw new Error('Failed to switch branch');
+      const chat = await response.json();
+      setCurrentChat(chat);
+      setMessages(chat.messages || []);
+    } catch (error) {
+      console.error('Failed to switch branch:', error);
+    }
+  };
 
-      if (!response.ok) throw new Error('Failed to get AI response');
+  /* ----- Tutoring mode ----- */
+  // Applies from the next reply; earlier replies keep the mode they were written in
+  const handleModeChange = async (next: TutorMode) => {
+    if (!chatId || isThinking || interview || next === mode.id) return;
+    try {
+      const response = await fetch(`/api/chats/${chatId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode: next }),
+      });
+      if (!response.ok) throw new Error('Failed to switch mode');
+      const chat = await response.json();
+      setCurrentChat(prev => (prev ? { ...prev, mode: chat.mode } : chat));
+      if (!getTutorMode(next).codeInput) setCodeOpen(false);
+    } catch (error) {
+      console.error('Failed to switch mode:', error);
+    }
+  };
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let aiResponseText = '';
+  /* ----- Teaching stages ----- */
+  // Going back happens with this message; skipping ahead is a request the tutor acts on in its reply
+  const handleStageSelect = (stage: number, e: React.MouseEvent) => {
+    const current = teachingStateOf(currentChat ?? {}).stage;
+    const name = `Stage ${stage} — ${stageLabel(stage)}`;
+    const text = stage < current ? `Let's go back to ${name}.` : `I'd like to skip ahead to ${name}.`;
+    handleSubmit(e as unknown as React.FormEvent, text, { stage });
+  };
 
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+  /* ----- Mock interview ----- */
+  // The server picks the problem and starts the clock; the candidate's greeting opens the conversation
+  const handleStartInterview = async (options: InterviewStartOptions) => {
+    if (!chatId || interviewBusy) return;
+    setInterviewBusy(true);
+    setInterviewNotice(null);
+    try {
+      const response = await fetch(`/api/chats/${chatId}/interview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options),
+      });
+      const chat = await response.json();
+      if (!response.ok) throw new Error(chat.error || 'Failed to start the interview');
+      setCurrentChat(prev => (prev ? { ...prev, mode: chat.mode, title: chat.title, interview: chat.interview } : chat));
+      setNow(Date.now());
+      window.dispatchEvent(new CustomEvent('chatUpdated'));
+      setInterviewBusy(false);
+      await handleSubmit(new Event('submit') as unknown as React.FormEvent, "Hi, I'm ready to start.");
+    } catch (error) {
+      setInterviewNotice(error instanceof Error ? error.message : 'Failed to start the interview');
+      setInterviewBusy(false);
+    }
+  };
 
-          const chunk = decoder.decode(value);
-          aiResponseText += chunk;
+  const handleInterviewHint = (e: React.MouseEvent) => {
+    handleSubmit(e as unknown as React.FormEvent, 'Could I get a hint?', { hint: true });
+  };
 
-          setMessages(prev => prev.map(msg =>
-            msg.id === aiMessage.id
-              ? { ...msg, content: aiResponseText, isLoading: false }
-              : msg
-          ));
-        }
+  // Grades the interview; the debrief replaces the composer
+  const handleEndInterview = useCallback(async () => {
+    if (!chatId) return;
+    setInterviewBusy(true);
+    setInterviewNotice(null);
+    setCurrentChat(prev => (prev?.interview ? { ...prev, interview: { ...prev.interview, status: 'grading' } } : prev));
+    try {
+      const response = await fetch(`/api/chats/${chatId}/interview/finish`, { method: 'POST' });
+      const chat = await response.json();
+      if (response.status === 429) {
+        setLimitNotice({ message: chat.error || 'Too many requests', resetAt: new Date(chat.resetAt || Date.now() + 60_000) });
+      } else if (!response.ok) {
+        setInterviewNotice(chat.error || 'Failed to end the interview');
+      }
+      if (!response.ok) {
+        setCurrentChat(prev => (prev?.interview ? { ...prev, interview: { ...prev.interview, status: 'active' } } : prev));
+        return;
       }
+      setCurrentChat(prev => (prev ? { ...prev, interview: chat.interview } : chat));
+    } catch (error) {
+      console.error('Failed to end interview:', error);
+      setInterviewNotice('Failed to end the interview');
+      setCurrentChat(prev => (prev?.interview ? { ...prev, interview: { ...prev.interview, status: 'active' } } : prev));
+    } finally {
+      setInterviewBusy(false);
+    }
+  }, [chatId]);
 
-      // Save AI response
-      await fetch(`/api/chats/${chatId}`, {
-        method: 'PATCH',
+  // Time is up: end the interview once the reply in progress (if any) has finished
+  useEffect(() => {
+    if (!chatId || !interviewActive || remainingMs > 0 || isThinking || interviewBusy) return;
+    if (autoEndedRef.current === chatId) return;
+    autoEndedRef.current = chatId;
+    handleEndInterview();
+  }, [chatId, interviewActive, remainingMs, isThinking, interviewBusy, handleEndInterview]);
+
+  const handleNewInterview = async () => {
+    try {
+      const response = await fetch('/api/chats', {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: { ...aiMessage, content: aiResponseText, isLoading: false }
-        })
+        body: JSON.stringify({ title: 'New Chat', mode: 'mock-interview' })
       });
-
-      setIsThinking(false);
+      if (response.ok) {
+        const newChat = await response.json();
+        router.push(`/dashboard?chatId=${newChat._id}`);
+        window.dispatchEvent(new CustomEvent('chatUpdated'));
+      }
     } catch (error) {
-      console.error('Failed to process message:', error);
-      setMessages(prev => {
-        const last = prev[prev.length - 1];
-        if (last?.id === aiMessage.id) return prev.slice(0, -1);
-        return prev;
-      });
-      setIsThinking(false);
+      console.error('Failed to create chat:', error);
     }
   };
 
@@ -580,7 +1083,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
                       New Chat Started
                     </h2>
                     <p className="text-gray-600 mb-4">
-                      Ask a DSA question, upload a problem screenshot, or try a visual walkthrough
+                      {mode.id === 'socratic'
+                        ? 'Ask a DSA question, upload a problem screenshot, or try a visual walkthrough'
+                        : `${mode.label}: ${mode.description}`}
                     </p>
                     {/* Quick starts inside chat too */}
                     <div className="grid grid-cols-2 gap-2 max-w-md">
@@ -633,25 +1138,135 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
                           {/* User-attached images */}
                           {images.length > 0 && (
                             <div className="flex flex-wrap gap-2 mb-2">
-                              {images.map((src, idx) => (
-                                // eslint-disable-next-line @next/next/no-img-element
-                                <img
-                                  key={idx}
-                                  src={src}
-                                  alt={`Attachment ${idx + 1}`}
-                                  className="max-h-48 rounded-md border border-white/20 object-contain"
-                                />
-                              ))}
+                              {images.map((src, idx) => {
+                                const attachmentId = !message.images ? message.attachmentIds?.[idx] : undefined;
+                                const image = (
+                                  // eslint-disable-next-line @next/next/no-img-element
+                                  <img
+                                    src={src}
+                                    alt={`Attachment ${idx + 1}`}
+                                    className="max-h-48 rounded-md border border-white/20 object-contain"
+                                  />
+                                );
+                                return attachmentId ? (
+                                  <a key={idx} href={attachmentUrl(attachmentId)} target="_blank" rel="noopener noreferrer">
+                                    {image}
+                                  </a>
+                                ) : (
+                                  <span key={idx}>{image}</span>
+                                );
+                              })}
+                            </div>
+                          )}
+
+                          {/* Teaching stage reached in this reply */}
+                          {message.role === 'assistant' && message.stage && (
+                            <div className="mb-1 inline-block rounded-full bg-indigo-100 px-2 py-0.5 text-xs font-medium text-indigo-700">
+                              {message.stage}
                             </div>
                           )}
 
                           {/* Message text */}
                           {message.role === 'assistant' ? (
                             <MarkdownRenderer content={text} />
+                          ) : editingId === message.id ? (
+                            <div className="min-w-[16rem]">
+                              <AutoResizeTextarea
+                                value={editText}
+                                onChange={setEditText}
+                                className="w-full rounded-md bg-white px-2 py-1 text-sm text-gray-900 focus:outline-none"
+                              />
+                              <div className="mt-2 flex justify-end gap-2 text-xs">
+                                <button type="button" onClick={() => setEditingId(null)} className="rounded px-2 py-1 hover:bg-indigo-400">
+                                  Cancel
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => handleEditSubmit(message)}
+                                  disabled={!editText.trim()}
+                                  className="rounded bg-white px-2 py-1 font-medium text-indigo-600 disabled:opacity-50"
+                                >
+                                  Save & resend
+                                </button>
+                              </div>
+                            </div>
                           ) : (
                             text && <div style={{ whiteSpace: 'pre-wrap' }}>{text}</div>
                           )}
 
+                          {/* Fork navigation and editing of the learner's own messages */}
+                          {message.role === 'user' && editingId !== message.id && (message.branch || !isThinking) && (
+                            <div className="flex items-center justify-end gap-1 mt-1 text-xs text-indigo-100">
+                              {message.branch && (
+                                <>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleSelectBranch(message.branch!.siblingIds[message.branch!.index - 1])}
+                                    disabled={isThinking || message.branch.index === 0}
+                                    className="rounded p-0.5 hover:text-white disabled:opacity-30"
+                                    aria-label="Previous branch"
+                                  >
+                                    <ChevronLeft size={14} />
+                                  </button>
+                                  <span>{message.branch.index + 1}/{message.branch.count}</span>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleSelectBranch(message.branch!.siblingIds[message.branch!.index + 1])}
+                                    disabled={isThinking || message.branch.index === message.branch.count - 1}
+                                    className="rounded p-0.5 hover:text-white disabled:opacity-30"
+                                    aria-label="Next branch"
+                                  >
+                                    <ChevronRight size={14} />
+                                  </button>
+                                </>
+                              )}
+                              {!isThinking && (
+                                <button
+                                  type="button"
+                                  onClick={() => { setEditingId(message.id); setEditText(text); }}
+                                  className="rounded p-0.5 hover:text-white"
+                                  title="Edit and resend from here"
+                                  aria-label="Edit message"
+                                >
+                                  <Pencil size={12} />
+                                </button>
+                              )}
+                            </div>
+                          )}
+
+                          {/* Diagram being streamed */}
+                          {message.drawing && (
+                            <div className="flex items-center mt-2 text-sm text-gray-500">
+                              <Sparkles size={14} className="mr-2 animate-pulse text-indigo-400" />
+                              {message.drawing === 'svg' ? 'Drawing diagram...' : 'Drawing flowchart...'}
+                            </div>
+                          )}
+
+                          {/* Generation error */}
+                          {message.error && (
+                            <div className="flex items-center mt-2 text-sm text-red-600">
+                              <AlertCircle size={14} className="mr-2 shrink-0" />
+                              {message.content ? 'The reply was interrupted: ' : 'Something went wrong: '}
+                              {message.error}
+                            </div>
+                          )}
+
+                          {/* Reply cut short on an earlier visit */}
+                          {message.status === 'incomplete' && !message.error && (
+                            <div className="flex items-center mt-2 text-sm text-amber-600">
+                              <AlertCircle size={14} className="mr-2 shrink-0" />
+                              This reply is incomplete; generation was interrupted.
+                            </div>
+                          )}
+
+                          {/* Generation stopped by the learner */}
+                          {message.status === 'stopped' && (
+                            <div className="flex items-center mt-2 text-xs text-gray-500">
+                              <Square size={10} className="mr-2 shrink-0" fill="currentColor" />
+                              Stopped
+                            </div>
+                          )}
+
                           {/* Loading indicator */}
                           {message.isLoading && (
                             <div className="flex items-center mt-2">
@@ -663,11 +1278,59 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
                               </span>
                             </div>
                           )}
+
+                          {/* Regenerate and switch between answers */}
+                          {message.role === 'assistant' && !message.isLoading && message.status !== 'streaming' && (
+                            <div className="flex items-center gap-1 mt-2 text-xs text-gray-500">
+                              {message.variants && message.variants.length > 1 && (
+                                <>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleSelectVariant(message, (message.activeVariant ?? 0) - 1)}
+                                    disabled={isThinking || (message.activeVariant ?? 0) === 0}
+                                    className="rounded p-0.5 hover:text-indigo-600 disabled:opacity-30"
+                                    aria-label="Previous answer"
+                                  >
+                                    <ChevronLeft size={14} />
+                                  </button>
+                                  <span>{(message.activeVariant ?? 0) + 1}/{message.variants.length}</span>
+                                  <button
+                                    type="button"
+                                    onClick={() => handleSelectVariant(message, (message.activeVariant ?? 0) + 1)}
+                                    disabled={isThinking || (message.activeVariant ?? 0) === message.variants.length - 1}
+                                    className="rounded p-0.5 hover:text-indigo-600 disabled:opacity-30"
+                                    aria-label="Next answer"
+                                  >
+                                    <ChevronRight size={14} />
+                                  </button>
+                                </>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => handleRegenerate(message)}
+                                disabled={isThinking}
+                                className="flex items-center gap-1 rounded px-1 py-0.5 hover:text-indigo-600 disabled:opacity-30"
+                                title="Generate a new answer"
+                              >
+                                <RefreshCw size={12} />
+                                Regenerate
+                              </button>
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
                   );
                 })}
+
+                {/* Scored debrief of a finished interview */}
+                {interview?.status === 'completed' && chatId && (
+                  <InterviewDebriefCard
+                    interview={interview}
+                    reportUrl={`/api/chats/${chatId}/interview/report`}
+                    onNewInterview={handleNewInterview}
+                  />
+                )}
                 <div ref={messagesEndRef} />
               </>
             )}
@@ -701,65 +1364,220 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sidebarCollapsed }) => {
             </div>
           )}
 
-          <form
-            onSubmit={handleSubmit}
-            className="relative flex items-center rounded-xl border bg-white px-3 py-1.5 pr-20 text-sm focus-within:ring-1 focus-within:ring-indigo-300"
-          >
-            {/* Hidden file input */}
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept={ACCEPTED_TYPES.join(',')}
-              multiple
-              className="hidden"
-              onChange={(e) => {
-                if (e.target.files) processFiles(e.target.files);
-                e.target.value = '';
-              }}
-            />
+          {/* Over the request or daily token limit */}
+          {limitNotice && (
+            <div
+              role="status"
+              className="mb-2 flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800"
+            >
+              <AlertCircle size={14} className="shrink-0" />
+              <span className="flex-1">
+                {limitNotice.message}. You can send messages again {formatResetTime(limitNotice.resetAt)}.
+              </span>
+              <button
+                type="button"
+                onClick={() => setLimitNotice(null)}
+                className="rounded-full p-0.5 text-amber-600 hover:bg-amber-100"
+                aria-label="Dismiss"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          )}
 
-            {/* Image upload button */}
-            <button
-              type="button"
-              onClick={() => fileInputRef.current?.click()}
-              disabled={isThinking}
-              className="mr-2 rounded-full p-1.5 text-gray-400 transition-colors hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
-              title="Attach image (screenshot, diagram, whiteboard)"
+          {/* Interview refused a turn, or could not start or end */}
+          {interviewNotice && (
+            <div
+              role="status"
+              className="mb-2 flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800"
             >
-              <ImagePlus size={18} />
-            </button>
+              <AlertCircle size={14} className="shrink-0" />
+              <span className="flex-1">{interviewNotice}</span>
+              <button
+                type="button"
+                onClick={() => setInterviewNotice(null)}
+                className="rounded-full p-0.5 text-amber-600 hover:bg-amber-100"
+                aria-label="Dismiss"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          )}
 
-            <AutoResizeTextarea
-              value={input}
-              onChange={setInput}
-              onKeyDown={handleKeyDown}
-              placeholder={imageAttachments.length > 0 ? "Describe what's in the image..." : "Ask a DSA question, or upload a problem screenshot..."}
-              className="flex-1 bg-transparent py-1.5 focus:outline-none"
+          {/* Running interview: countdown, hints, end button */}
+          {interview && interview.status !== 'completed' && (
+            <InterviewBar
+              interview={interview}
+              remainingMs={remainingMs}
+              busy={isThinking || interviewBusy}
+              onHint={handleInterviewHint}
+              onEnd={handleEndInterview}
             />
+          )}
 
-            {/* Hint button */}
-            <button
-              type="button"
-              onClick={(e) => {
-                setInput('Give me a hint');
-                setTimeout(() => handleSubmit(e as unknown as React.FormEvent, 'Give me a hint'), 50);
-              }}
-              disabled={isThinking || messages.length === 0}
-              className="absolute bottom-2 right-10 rounded-full p-1 text-gray-400 hover:text-amber-500 disabled:opacity-30 transition-colors"
-              title="Ask for a progressive hint"
-            >
-              <Lightbulb size={18} />
-            </button>
+          {/* Where the walkthrough stands; earlier stages can be revisited, later ones requested */}
+          {mode.stages && messages.length > 0 && (
+            <StageProgress
+              stage={teachingStateOf(currentChat ?? {}).stage}
+              skipTo={currentChat?.teaching?.skipTo}
+              disabled={isThinking}
+              onSelect={handleStageSelect}
+            />
+          )}
 
-            {/* Send button */}
-            <button
-              type="submit"
-              disabled={isThinking || (!input.trim() && imageAttachments.length === 0)}
-              className="absolute bottom-2 right-2 rounded-full p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30 transition-colors"
+          {/* Tutoring mode selector; fixed once an interview has been started in the chat */}
+          <div className="mb-2 flex flex-wrap gap-1.5 px-1" role="radiogroup" aria-label="Tutoring mode">
+            {TUTOR_MODES.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                role="radio"
+                aria-checked={option.id === mode.id}
+                onClick={() => handleModeChange(option.id)}
+                disabled={isThinking || !!interview}
+                title={interview ? 'Start a new chat to switch modes' : option.description}
+                className={cn(
+                  "rounded-full border px-2.5 py-0.5 text-xs transition-colors disabled:opacity-50",
+                  option.id === mode.id
+                    ? "border-indigo-300 bg-indigo-50 font-medium text-indigo-700"
+                    : "bg-white text-gray-500 hover:text-indigo-600"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Mock interviews start from this form; finished ones take no more messages */}
+          {mode.id === 'mock-interview' && !interview && (
+            <InterviewStartForm onStart={handleStartInterview} disabled={interviewBusy || isThinking} />
+          )}
+
+          {/* Code panel: pasted code is sent as a fenced block with the message */}
+          {mode.codeInput && codeOpen && (mode.id !== 'mock-interview' || interviewActive) && (
+            <div className="mb-2 rounded-xl border bg-white">
+              <div className="flex items-center justify-between border-b px-3 py-1.5">
+                <select
+                  value={codeLanguage}
+                  onChange={(e) => setCodeLanguage(e.target.value)}
+                  className="bg-transparent text-xs text-gray-600 focus:outline-none"
+                  aria-label="Code language"
+                >
+                  {CODE_LANGUAGES.map((language) => (
+                    <option key={language} value={language}>{language}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setCodeOpen(false)}
+                  className="rounded-full p-0.5 text-gray-400 hover:text-gray-600"
+                  aria-label="Close code panel"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+              <textarea
+                value={codeText}
+                onChange={(e) => setCodeText(e.target.value)}
+                placeholder={mode.id === 'code-review' ? 'Paste the code to review...' : 'Write or paste your solution...'}
+                rows={10}
+                spellCheck={false}
+                className="w-full resize-y bg-gray-50 px-3 py-2 font-mono text-xs focus:outline-none"
+              />
+            </div>
+          )}
+
+          {(mode.id !== 'mock-interview' || interviewActive) && (
+            <form
+              onSubmit={handleSubmit}
+              className="relative flex items-center rounded-xl border bg-white px-3 py-1.5 pr-20 text-sm focus-within:ring-1 focus-within:ring-indigo-300"
             >
-              <ArrowUpIcon size={18} />
-            </button>
-          </form>
+              {/* Hidden file input */}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_TYPES.join(',')}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files) processFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+
+              {/* Image upload button */}
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isThinking}
+                className="mr-2 rounded-full p-1.5 text-gray-400 transition-colors hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+                title="Attach image (screenshot, diagram, whiteboard)"
+              >
+                <ImagePlus size={18} />
+              </button>
+
+              {/* Code panel toggle */}
+              {mode.codeInput && (
+                <button
+                  type="button"
+                  onClick={() => setCodeOpen(open => !open)}
+                  disabled={isThinking}
+                  className={cn(
+                    "mr-2 rounded-full p-1.5 transition-colors hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-50",
+                    codeOpen || codeText.trim() ? "text-indigo-600" : "text-gray-400"
+                  )}
+                  title="Paste code"
+                >
+                  <Code2 size={18} />
+                </button>
+              )}
+
+              <AutoResizeTextarea
+                value={input}
+                onChange={setInput}
+                onKeyDown={handleKeyDown}
+                placeholder={imageAttachments.length > 0 ? "Describe what's in the image..." : mode.placeholder}
+                className="flex-1 bg-transparent py-1.5 focus:outline-none"
+              />
+
+              {/* Hint button (modes with progressive hints) */}
+              {mode.hints && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    setInput('Give me a hint');
+                    setTimeout(() => handleSubmit(e as unknown as React.FormEvent, 'Give me a hint'), 50);
+                  }}
+                  disabled={isThinking || messages.length === 0}
+                  className="absolute bottom-2 right-10 rounded-full p-1 text-gray-400 hover:text-amber-500 disabled:opacity-30 transition-colors"
+                  title="Ask for a progressive hint"
+                >
+                  <Lightbulb size={18} />
+                </button>
+              )}
+
+              {/* Send button; Stop while a reply is generating */}
+              {isThinking ? (
+                <button
+                  type="button"
+                  onClick={handleStop}
+                  className="absolute bottom-2 right-2 rounded-full p-1 text-gray-500 hover:text-red-600 transition-colors"
+                  title="Stop generating"
+                  aria-label="Stop generating"
+                >
+                  <Square size={16} fill="currentColor" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim() && imageAttachments.length === 0 && !(mode.codeInput && codeText.trim())}
+                  className="absolute bottom-2 right-2 rounded-full p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30 transition-colors"
+                >
+                  <ArrowUpIcon size={18} />
+                </button>
+              )}
+            </form>
+          )}
 
           <div className="text-xs text-muted-foreground text-center pt-2">
             Drop images to analyze problems visually. AI generates SVG diagrams and Mermaid flowcharts.
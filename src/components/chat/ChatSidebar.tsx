@@ -1,25 +1,38 @@
 /**
  * @dev Chat sidebar component that manages chat history and navigation
- * Features: chat list, collapsible sidebar, chat title editing, chat deletion
+ * Features: paginated chat list with infinite scroll, collapsible sidebar, chat title editing,
+ * soft deletion with a trash view (restore / delete forever)
  */
 
 'use client';
 
 import { useSession, signOut } from 'next-auth/react';
-import { PlusIcon, ChevronLeftIcon, ChevronRightIcon, LogOutIcon, Pencil, Trash2 } from 'lucide-react';
+import { PlusIcon, ChevronLeftIcon, ChevronRightIcon, LogOutIcon, Pencil, Trash2, SettingsIcon, RotateCcw, ArrowLeftIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useRouter, usePathname, useSearchParams } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
 /**
- * @dev Defines the structure for a chat session
+ * @dev Defines the structure for a chat index entry returned by /api/chats
  */
 interface Chat {
   _id: string;
   title: string;
-  messages: any[];
+  messageCount: number;
+  tags: string[];
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: string;
+}
+
+/**
+ * @dev One page of chats as returned by /api/chats
+ */
+interface ChatPage {
+  chats: Chat[];
+  nextCursor: string | null;
+  /** Only present on trash listings */
+  retentionDays?: number;
 }
 
 /**
@@ -36,35 +49,79 @@ export default function ChatSidebar({ isCollapsed, onToggle }: ChatSidebarProps)
   const pathname = usePathname();
   const searchParams = useSearchParams();
   const [chats, setChats] = useState<Chat[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [editingChatId, setEditingChatId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState('');
-  
-  useEffect(() => {
-    fetchChats();
-    
-    // Listen for chat updates
-    const handleChatUpdate = () => {
-      fetchChats();
-    };
-    
-    window.addEventListener('chatUpdated', handleChatUpdate);
-    return () => window.removeEventListener('chatUpdated', handleChatUpdate);
-  }, []);
+  const [showTrash, setShowTrash] = useState(false);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const listUrl = showTrash ? '/api/chats?trash=true' : '/api/chats';
 
   /**
-   * @dev Fetches all chats for the current user
+   * @dev Fetches the first page of chats (or of the trash) for the current user
    */
-  const fetchChats = async () => {
+  const fetchChats = useCallback(async () => {
     try {
-      const response = await fetch('/api/chats');
+      const response = await fetch(listUrl);
       if (response.ok) {
-        const data = await response.json();
-        setChats(data);
+        const data: ChatPage = await response.json();
+        setChats(data.chats);
+        setNextCursor(data.nextCursor);
+        if (data.retentionDays) setRetentionDays(data.retentionDays);
       }
     } catch (error) {
       console.error('Failed to fetch chats:', error);
     }
-  };
+  }, [listUrl]);
+
+  /**
+   * @dev Appends the next page of chats when the list is scrolled to the bottom
+   */
+  const loadMoreChats = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const separator = listUrl.includes('?') ? '&' : '?';
+      const response = await fetch(`${listUrl}${separator}cursor=${encodeURIComponent(nextCursor)}`);
+      if (response.ok) {
+        const data: ChatPage = await response.json();
+        setChats(prev => [
+          ...prev,
+          ...data.chats.filter(chat => !prev.some(existing => existing._id === chat._id)),
+        ]);
+        setNextCursor(data.nextCursor);
+      }
+    } catch (error) {
+      console.error('Failed to load more chats:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [listUrl, nextCursor, isLoadingMore]);
+
+  useEffect(() => {
+    fetchChats();
+
+    // Listen for chat updates
+    const handleChatUpdate = () => {
+      fetchChats();
+    };
+
+    window.addEventListener('chatUpdated', handleChatUpdate);
+    return () => window.removeEventListener('chatUpdated', handleChatUpdate);
+  }, [fetchChats]);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) loadMoreChats();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreChats]);
 
   /**
    * @dev Creates a new chat session and redirects to it
@@ -79,7 +136,7 @@ export default function ChatSidebar({ isCollapsed, onToggle }: ChatSidebarProps)
       
       if (response.ok) {
         const newChat = await response.json();
-        setChats(prev => [newChat, ...prev]);
+        if (!showTrash) setChats(prev => [newChat, ...prev]);
         router.push(`/dashboard?chatId=${newChat._id}`);
       }
     } catch (error) {
@@ -125,7 +182,7 @@ export default function ChatSidebar({ isCollapsed, onToggle }: ChatSidebarProps)
   };
 
   /**
-   * @dev Deletes a chat session
+   * @dev Moves a chat session to the trash
    * @param chatId - ID of the chat to delete
    */
   const deleteChat = async (chatId: string) => {
@@ -145,6 +202,54 @@ export default function ChatSidebar({ isCollapsed, onToggle }: ChatSidebarProps)
     }
   };
 
+  /**
+   * @dev Restores a chat from the trash
+   * @param chatId - ID of the chat to restore
+   */
+  const restoreChat = async (chatId: string) => {
+    try {
+      const response = await fetch(`/api/chats/${chatId}/restore`, {
+        method: 'POST'
+      });
+
+      if (response.ok) {
+        setChats(prev => prev.filter(chat => chat._id !== chatId));
+      }
+    } catch (error) {
+      console.error('Failed to restore chat:', error);
+    }
+  };
+
+  /**
+   * @dev Permanently deletes a chat from the trash
+   * @param chatId - ID of the chat to delete
+   */
+  const deleteChatForever = async (chatId: string) => {
+    if (!window.confirm('Delete this chat forever? This cannot be undone.')) return;
+
+    try {
+      const response = await fetch(`/api/chats/${chatId}?permanent=true`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        setChats(prev => prev.filter(chat => chat._id !== chatId));
+      }
+    } catch (error) {
+      console.error('Failed to permanently delete chat:', error);
+    }
+  };
+
+  /**
+   * @dev Switches between the chat list and the trash
+   */
+  const toggleTrash = () => {
+    setChats([]);
+    setNextCursor(null);
+    setEditingChatId(null);
+    setShowTrash(prev => !prev);
+  };
+
   /**
    * @dev Handles user sign out and redirects to home page
    */
@@ -170,21 +275,74 @@ export default function ChatSidebar({ isCollapsed, onToggle }: ChatSidebarProps)
       </button>
 
       <div className={cn(
-        "flex-1 overflow-hidden transition-opacity duration-300",
+        "flex flex-1 flex-col overflow-hidden transition-opacity duration-300",
         isCollapsed ? "opacity-0 invisible" : "opacity-100 visible"
       )}>
-        <div className="p-4">
-          <button 
-            onClick={createNewChat}
-            className="flex w-full items-center justify-center gap-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 p-2 text-sm text-white hover:from-indigo-700 hover:to-purple-700 transition-all duration-200"
-          >
-            <PlusIcon size={16} />
-            New Chat
-          </button>
-        </div>
+        {showTrash ? (
+          <div className="p-4">
+            <button
+              onClick={toggleTrash}
+              className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-indigo-600"
+            >
+              <ArrowLeftIcon size={16} />
+              Back to chats
+            </button>
+            <p className="mt-2 text-xs text-gray-500">
+              {retentionDays
+                ? `Chats in the trash are deleted forever after ${retentionDays} days.`
+                : 'Chats in the trash are deleted forever after a while.'}
+            </p>
+          </div>
+        ) : (
+          <div className="p-4">
+            <button 
+              onClick={createNewChat}
+              className="flex w-full items-center justify-center gap-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 p-2 text-sm text-white hover:from-indigo-700 hover:to-purple-700 transition-all duration-200"
+            >
+              <PlusIcon size={16} />
+              New Chat
+            </button>
+          </div>
+        )}
 
         <nav className="flex-1 overflow-y-auto p-2">
-          {chats.map((chat) => (
+          {showTrash && chats.length === 0 && !nextCursor && (
+            <p className="p-2 text-center text-xs text-gray-400">Trash is empty</p>
+          )}
+
+          {showTrash && chats.map((chat) => (
+            <div
+              key={chat._id}
+              className="group flex items-center gap-2 rounded-lg p-2 text-sm hover:bg-gray-50"
+            >
+              <div className="flex-1 truncate">
+                <div className="font-medium text-gray-600">
+                  {chat.title}
+                </div>
+                <div className="text-xs text-gray-400">
+                  Deleted {chat.deletedAt ? new Date(chat.deletedAt).toLocaleDateString() : ''}
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => restoreChat(chat._id)}
+                  className="p-1 hover:bg-gray-100 rounded"
+                  title="Restore"
+                >
+                  <RotateCcw size={14} className="text-gray-500" />
+                </button>
+                <button
+                  onClick={() => deleteChatForever(chat._id)}
+                  className="p-1 hover:bg-red-50 rounded"
+                  title="Delete forever"
+                >
+                  <Trash2 size={14} className="text-red-500" />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {!showTrash && chats.map((chat) => (
             <div
               key={chat._id}
               className={cn(
@@ -246,14 +404,40 @@ export default function ChatSidebar({ isCollapsed, onToggle }: ChatSidebarProps)
               )}
             </div>
           ))}
+
+          {/* Infinite scroll sentinel */}
+          {nextCursor && (
+            <div ref={loadMoreRef} className="flex justify-center py-2">
+              {isLoadingMore && (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-indigo-600" />
+              )}
+            </div>
+          )}
         </nav>
       </div>
 
-      {/* Sign Out Button */}
+      {/* Trash, Settings & Sign Out */}
       <div className={cn(
         "p-2 border-t transition-opacity duration-300",
         isCollapsed ? "opacity-0 invisible" : "opacity-100 visible"
       )}>
+        <button
+          onClick={toggleTrash}
+          className={cn(
+            "flex w-full items-center gap-2 rounded-lg p-2 text-sm text-gray-600 hover:bg-gray-50",
+            showTrash && "bg-gray-50 text-indigo-600"
+          )}
+        >
+          <Trash2 size={16} />
+          <span>Trash</span>
+        </button>
+        <button
+          onClick={() => router.push('/settings')}
+          className="flex w-full items-center gap-2 rounded-lg p-2 text-sm text-gray-600 hover:bg-gray-50"
+        >
+          <SettingsIcon size={16} />
+          <span>Settings</span>
+        </button>
         <button
           onClick={handleSignOut}
           className="flex w-full items-center gap-2 rounded-lg p-2 text-sm text-gray-600 hover:bg-gray-50"
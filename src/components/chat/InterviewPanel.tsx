@@ -0,0 +1,282 @@
+/**
+ * @dev Mock interview controls for ChatInterface
+ * Features: start form (difficulty, topic, length), countdown bar with hint and
+ * end buttons, scored debrief card with report download
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Clock, Download, Flag, Lightbulb, Play, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { InterviewSession } from '@/lib/chat-schema';
+import {
+  DEFAULT_INTERVIEW_MINUTES,
+  HINT_PENALTY,
+  INTERVIEW_DIFFICULTIES,
+  INTERVIEW_DURATIONS,
+  INTERVIEW_RUBRIC,
+  INTERVIEW_TOPICS,
+  MAX_CRITERION_SCORE,
+  MAX_INTERVIEW_HINTS,
+  VERDICT_LABELS,
+  type InterviewDifficulty,
+  type InterviewTopic,
+  type InterviewVerdict,
+} from '@/lib/interview/rubric';
+
+export interface InterviewStartOptions {
+  difficulty?: InterviewDifficulty;
+  topic?: InterviewTopic;
+  durationMinutes: number;
+}
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function topicLabel(topic: string): string {
+  return topic.replace(/-/g, ' ');
+}
+
+const VERDICT_COLORS: Record<InterviewVerdict, string> = {
+  'strong-hire': 'bg-green-100 text-green-700',
+  hire: 'bg-green-50 text-green-700',
+  'lean-hire': 'bg-amber-50 text-amber-700',
+  'lean-no-hire': 'bg-orange-50 text-orange-700',
+  'no-hire': 'bg-red-50 text-red-700',
+};
+
+/* ------------------------------------------------------------------ */
+/*  Start form                                                         */
+/* ------------------------------------------------------------------ */
+
+export function InterviewStartForm({ onStart, disabled }: { onStart: (options: InterviewStartOptions) => void; disabled: boolean }) {
+  const [difficulty, setDifficulty] = useState<InterviewDifficulty | ''>('medium');
+  const [topic, setTopic] = useState<InterviewTopic | ''>('');
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_INTERVIEW_MINUTES);
+
+  const selectClass = 'rounded-md border bg-white px-2 py-1 text-xs text-gray-700 focus:outline-none focus:ring-1 focus:ring-indigo-300';
+
+  return (
+    <div className="rounded-xl border bg-white p-4">
+      <h3 className="text-sm font-medium text-gray-900">Start a mock interview</h3>
+      <p className="mb-3 text-xs text-gray-500">
+        The interviewer picks a problem and the clock starts. You get up to {MAX_INTERVIEW_HINTS} hints, each costing{' '}
+        {HINT_PENALTY} points. When time is up you get a scored debrief.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={difficulty}
+          onChange={(e) => setDifficulty(e.target.value as InterviewDifficulty | '')}
+          className={selectClass}
+          aria-label="Difficulty"
+        >
+          <option value="">Any difficulty</option>
+          {INTERVIEW_DIFFICULTIES.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <select
+          value={topic}
+          onChange={(e) => setTopic(e.target.value as InterviewTopic | '')}
+          className={selectClass}
+          aria-label="Topic"
+        >
+          <option value="">Any topic</option>
+          {INTERVIEW_TOPICS.map((option) => (
+            <option key={option} value={option}>{topicLabel(option)}</option>
+          ))}
+        </select>
+        <select
+          value={durationMinutes}
+          onChange={(e) => setDurationMinutes(Number(e.target.value))}
+          className={selectClass}
+          aria-label="Length"
+        >
+          {INTERVIEW_DURATIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>{minutes} minutes</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onStart({ difficulty: difficulty || undefined, topic: topic || undefined, durationMinutes })}
+          disabled={disabled}
+          className="ml-auto flex items-center gap-1.5 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 px-3 py-1.5 text-xs font-medium text-white hover:from-indigo-700 hover:to-purple-700 disabled:opacity-50"
+        >
+          <Play size={12} />
+          Start interview
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/*  Countdown bar                                                      */
+/* ------------------------------------------------------------------ */
+
+export function InterviewBar({
+  interview,
+  remainingMs,
+  busy,
+  onHint,
+  onEnd,
+}: {
+  interview: InterviewSession;
+  remainingMs: number;
+  busy: boolean;
+  onHint: (e: React.MouseEvent) => void;
+  onEnd: () => void;
+}) {
+  const hintsLeft = MAX_INTERVIEW_HINTS - interview.hintsUsed;
+  const grading = interview.status === 'grading';
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-3 rounded-lg border border-indigo-200 bg-indigo-50 px-3 py-2 text-xs text-indigo-800">
+      <span
+        className={cn('flex items-center gap-1 font-mono text-sm font-semibold', remainingMs <= 5 * 60_000 && 'text-red-600')}
+        role="timer"
+        aria-label="Time remaining"
+      >
+        <Clock size={14} />
+        {formatCountdown(remainingMs)}
+      </span>
+      <span className="flex-1 truncate">
+        {interview.problem.title} · {interview.problem.difficulty}
+      </span>
+      {grading ? (
+        <span className="flex items-center gap-2 text-indigo-600">
+          <span className="h-3 w-3 animate-spin rounded-full border-b-2 border-indigo-600" />
+          Writing your debrief...
+        </span>
+      ) : (
+        <>
+          <span title={`Each hint lowers the overall score by ${HINT_PENALTY}`}>
+            Hints {interview.hintsUsed}/{MAX_INTERVIEW_HINTS}
+            {interview.hintsUsed > 0 && ` (−${interview.hintsUsed * HINT_PENALTY})`}
+          </span>
+          <button
+            type="button"
+            onClick={onHint}
+            disabled={busy || hintsLeft <= 0}
+            className="flex items-center gap-1 rounded-md border border-amber-200 bg-white px-2 py-0.5 text-amber-700 hover:bg-amber-50 disabled:opacity-40"
+            title={hintsLeft > 0 ? 'Ask for a hint (counts against your score)' : 'No hints left'}
+          >
+            <Lightbulb size={12} />
+            Hint
+          </button>
+          <button
+            type="button"
+            onClick={onEnd}
+            disabled={busy}
+            className="flex items-center gap-1 rounded-md border border-indigo-300 bg-white px-2 py-0.5 font-medium text-indigo-700 hover:bg-indigo-100 disabled:opacity-40"
+          >
+            <Flag size={12} />
+            End interview
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/*  Debrief                                                            */
+/* ------------------------------------------------------------------ */
+
+export function InterviewDebriefCard({
+  interview,
+  reportUrl,
+  onNewInterview,
+}: {
+  interview: InterviewSession;
+  reportUrl: string;
+  onNewInterview: () => void;
+}) {
+  const debrief = interview.debrief;
+  if (!debrief) return null;
+
+  return (
+    <div className="w-full rounded-xl border bg-white p-4 text-sm shadow-sm">
+      <div className="mb-3 flex flex-wrap items-center gap-3">
+        <h3 className="flex-1 font-semibold text-gray-900">Interview debrief · {interview.problem.title}</h3>
+        <span className="text-lg font-bold text-indigo-700">
+          {debrief.overall.toFixed(2)}
+          <span className="text-xs font-normal text-gray-500"> / {MAX_CRITERION_SCORE}</span>
+        </span>
+        <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium', VERDICT_COLORS[debrief.verdict])}>
+          {VERDICT_LABELS[debrief.verdict]}
+        </span>
+      </div>
+
+      {debrief.summary && <p className="mb-3 text-gray-700">{debrief.summary}</p>}
+
+      <div className="mb-3 space-y-2">
+        {INTERVIEW_RUBRIC.map((criterion) => {
+          const { score, notes } = debrief.scores[criterion.id];
+          return (
+            <div key={criterion.id}>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="w-36 font-medium text-gray-800" title={criterion.description}>{criterion.label}</span>
+                <div className="h-1.5 flex-1 rounded-full bg-gray-100">
+                  <div
+                    className="h-1.5 rounded-full bg-gradient-to-r from-indigo-500 to-purple-500"
+                    style={{ width: `${(score / MAX_CRITERION_SCORE) * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 text-right text-gray-600">{score}/{MAX_CRITERION_SCORE}</span>
+              </div>
+              {notes && <p className="mt-0.5 text-xs text-gray-500">{notes}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      {debrief.hintPenalty > 0 && (
+        <p className="mb-3 text-xs text-amber-700">
+          {interview.hintsUsed} hint{interview.hintsUsed === 1 ? '' : 's'} taken: −{debrief.hintPenalty} from the average score.
+        </p>
+      )}
+
+      <div className="mb-4 grid grid-cols-1 gap-3 sm:grid-cols-2">
+        {debrief.strengths.length > 0 && (
+          <div>
+            <h4 className="mb-1 text-xs font-medium text-green-700">Strengths</h4>
+            <ul className="list-disc space-y-0.5 pl-4 text-xs text-gray-700">
+              {debrief.strengths.map((item) => <li key={item}>{item}</li>)}
+            </ul>
+          </div>
+        )}
+        {debrief.improvements.length > 0 && (
+          <div>
+            <h4 className="mb-1 text-xs font-medium text-amber-700">To improve</h4>
+            <ul className="list-disc space-y-0.5 pl-4 text-xs text-gray-700">
+              {debrief.improvements.map((item) => <li key={item}>{item}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <a
+          href={reportUrl}
+          download
+          className="flex items-center gap-1 rounded-md border px-2.5 py-1 text-gray-700 hover:bg-gray-50"
+        >
+          <Download size={12} />
+          Download report
+        </a>
+        <button
+          type="button"
+          onClick={onNewInterview}
+          className="flex items-center gap-1 rounded-md border border-indigo-300 px-2.5 py-1 font-medium text-indigo-700 hover:bg-indigo-50"
+        >
+          <RotateCcw size={12} />
+          New interview
+        </button>
+      </div>
+    </div>
+  );
+}
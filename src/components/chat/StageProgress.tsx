@@ -0,0 +1,73 @@
+/**
+ * @dev Teaching stage progress bar for Socratic chats
+ * Features: the six stages with the current one highlighted, jump back to an
+ * earlier stage, ask to skip ahead to a later one (shown as requested until
+ * the tutor gets there)
+ */
+
+'use client';
+
+import { Check, FastForward } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { TEACHING_STAGES } from '@/lib/teaching-stages';
+
+export function StageProgress({
+  stage,
+  skipTo,
+  disabled,
+  onSelect,
+}: {
+  stage: number;
+  skipTo?: number;
+  disabled: boolean;
+  onSelect: (stage: number, e: React.MouseEvent) => void;
+}) {
+  return (
+    <nav className="mb-2 flex items-stretch gap-1 px-1" aria-label="Teaching stages">
+      {TEACHING_STAGES.map((entry) => {
+        const done = entry.stage < stage;
+        const current = entry.stage === stage;
+        const requested = !!skipTo && entry.stage === skipTo;
+        return (
+          <button
+            key={entry.stage}
+            type="button"
+            onClick={(e) => onSelect(entry.stage, e)}
+            disabled={disabled || current}
+            aria-current={current ? 'step' : undefined}
+            title={
+              current
+                ? `Stage ${entry.stage} — ${entry.label} (current)`
+                : done
+                  ? `Go back to Stage ${entry.stage} — ${entry.label}`
+                  : `Ask to skip ahead to Stage ${entry.stage} — ${entry.label}`
+            }
+            className={cn(
+              "flex flex-1 flex-col gap-1 rounded-md px-1 py-0.5 text-left text-[11px] transition-colors disabled:cursor-default",
+              !current && "hover:bg-indigo-50 disabled:hover:bg-transparent"
+            )}
+          >
+            <span
+              className={cn(
+                "h-1.5 w-full rounded-full",
+                done && "bg-indigo-400",
+                current && "bg-gradient-to-r from-indigo-500 to-purple-500",
+                !done && !current && (requested ? "bg-amber-300" : "bg-gray-200")
+              )}
+            />
+            <span
+              className={cn(
+                "flex items-center gap-1 truncate",
+                current ? "font-medium text-indigo-700" : done ? "text-indigo-500" : requested ? "text-amber-700" : "text-gray-400"
+              )}
+            >
+              {done && <Check size={10} className="shrink-0" />}
+              {requested && <FastForward size={10} className="shrink-0" />}
+              {entry.stage}. {entry.short}
+            </span>
+          </button>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * @dev Settings section for downloading and importing account data
+ * Features: full data export download, archive import with result summary
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+
+export default function AccountDataSection() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  /**
+   * @dev Uploads a previously exported archive into the current account
+   * @param file - JSON archive chosen by the user
+   */
+  const importArchive = async (file: File) => {
+    setIsImporting(true);
+    setStatus(null);
+    try {
+      const response = await fetch('/api/account/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Import failed');
+
+      const { chats, attachments, memories } = data.imported;
+      setStatus({
+        type: 'success',
+        text: `Imported ${chats} chats, ${attachments} images and ${memories} memories.`,
+      });
+      window.dispatchEvent(new CustomEvent('chatUpdated'));
+    } catch (error) {
+      setStatus({ type: 'error', text: error instanceof Error ? error.message : 'Import failed' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <section className="rounded-xl border bg-white p-6">
+      <h2 className="text-lg font-semibold text-gray-900">Your data</h2>
+      <p className="mt-1 text-sm text-gray-500">
+        Download everything AlgoSensei stores about you — profile, chats, images and learning memories —
+        or restore a previous export into this account.
+      </p>
+
+      <div className="mt-4 flex flex-wrap gap-3">
+        <a
+          href="/api/account/export"
+          className="flex items-center gap-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 px-4 py-2 text-sm font-medium text-white hover:from-indigo-700 hover:to-purple-700"
+        >
+          <Download size={16} />
+          Download my data
+        </a>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importArchive(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Upload size={16} />
+          {isImporting ? 'Importing...' : 'Import from export file'}
+        </button>
+      </div>
+
+      {status && (
+        <p className={status.type === 'success' ? 'mt-3 text-sm text-green-600' : 'mt-3 text-sm text-red-600'}>
+          {status.text}
+        </p>
+      )}
+    </section>
+  );
+}
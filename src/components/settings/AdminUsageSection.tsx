@@ -0,0 +1,118 @@
+/**
+ * @dev Settings section with token usage across all users, shown to admins only
+ * Features: period picker, daily token chart, totals, per-model and per-user breakdowns
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  formatCost,
+  formatTokens,
+  UsageChart,
+  UsagePeriodPicker,
+  UsageSummary,
+  type DailyUsage,
+  type UsageTotals,
+} from '@/components/settings/UsageChart';
+
+interface AdminUsageReport {
+  totals: UsageTotals;
+  days: DailyUsage[];
+  models: (UsageTotals & { model: string })[];
+  users: (UsageTotals & { userEmail: string })[];
+}
+
+export default function AdminUsageSection() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<AdminUsageReport | null>(null);
+  const [forbidden, setForbidden] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setError('');
+    fetch(`/api/admin/usage?days=${days}`, { cache: 'no-store' })
+      .then(async (response) => {
+        if (response.status === 403) {
+          if (!cancelled) setForbidden(true);
+          return;
+        }
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load usage');
+        if (!cancelled) setReport(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load usage');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  // Not an admin: the section does not exist for this user
+  if (forbidden) return null;
+
+  return (
+    <section className="rounded-xl border border-indigo-200 bg-white p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">All users</h2>
+          <p className="mt-1 text-sm text-gray-500">Token usage and estimated cost across the deployment.</p>
+        </div>
+        <UsagePeriodPicker value={days} onChange={setDays} />
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {report && (
+        <div className="mt-4 space-y-4">
+          <UsageSummary totals={report.totals} />
+          <UsageChart days={report.days} />
+
+          {report.models.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700">By model</h3>
+              <ul className="mt-2 divide-y text-sm">
+                {report.models.map((model) => (
+                  <li key={model.model} className="flex justify-between py-1.5">
+                    <span className="font-mono text-gray-700">{model.model}</span>
+                    <span className="text-gray-500">
+                      {formatTokens(model.totalTokens)} · {formatCost(model.costUsd)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.users.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700">By user</h3>
+              <table className="mt-2 w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-1 font-medium">User</th>
+                    <th className="py-1 text-right font-medium">Requests</th>
+                    <th className="py-1 text-right font-medium">Tokens</th>
+                    <th className="py-1 text-right font-medium">Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.users.map((user) => (
+                    <tr key={user.userEmail}>
+                      <td className="truncate py-1.5 text-gray-700">{user.userEmail}</td>
+                      <td className="py-1.5 text-right text-gray-500">{user.requests}</td>
+                      <td className="py-1.5 text-right text-gray-500">{formatTokens(user.totalTokens)}</td>
+                      <td className="py-1.5 text-right text-gray-500">{formatCost(user.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * @dev Settings section for permanently deleting the account
+ * Features: password re-confirmation, explicit confirmation phrase, sign-out on success
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { signOut } from 'next-auth/react';
+import { Trash2 } from 'lucide-react';
+
+const CONFIRM_PHRASE = 'delete my account';
+
+export default function DeleteAccountSection() {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState('');
+
+  const canDelete = password.length > 0 && confirmation.trim().toLowerCase() === CONFIRM_PHRASE;
+
+  /**
+   * @dev Deletes the account, then signs out and returns to the home page
+   */
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canDelete) return;
+
+    setIsDeleting(true);
+    setError('');
+    try {
+      const response = await fetch('/api/account', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to delete account');
+      }
+      await signOut({ callbackUrl: '/' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete account');
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <section className="rounded-xl border border-red-200 bg-white p-6">
+      <h2 className="text-lg font-semibold text-red-600">Delete account</h2>
+      <p className="mt-1 text-sm text-gray-500">
+        Permanently deletes your profile, all chats, uploaded images and learning memories.
+        This cannot be undone — download your data first if you want to keep it.
+      </p>
+
+      <form onSubmit={handleDelete} className="mt-4 space-y-3 max-w-sm">
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Current password"
+          autoComplete="current-password"
+          className="w-full rounded-lg border px-3 py-2 text-sm focus:outline-none focus:border-red-400"
+        />
+        <input
+          type="text"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder={`Type "${CONFIRM_PHRASE}" to confirm`}
+          className="w-full rounded-lg border px-3 py-2 text-sm focus:outline-none focus:border-red-400"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={!canDelete || isDeleting}
+          className="flex items-center gap-2 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+        >
+          <Trash2 size={16} />
+          {isDeleting ? 'Deleting...' : 'Delete my account'}
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * @dev Shared pieces of the usage sections: daily token bar chart and formatters
+ */
+
+'use client';
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export type DailyUsage = UsageTotals & { date: string };
+
+export const USAGE_PERIODS = [7, 30, 90];
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export function formatCost(costUsd: number): string {
+  return costUsd > 0 && costUsd < 0.01 ? '< $0.01' : `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * @dev Per-day stacked bars: prompt tokens (indigo) under completion tokens (purple)
+ */
+export function UsageChart({ days }: { days: DailyUsage[] }) {
+  const max = Math.max(1, ...days.map((day) => day.totalTokens));
+
+  return (
+    <div>
+      <div className="flex h-32 items-end gap-px">
+        {days.map((day) => (
+          <div
+            key={day.date}
+            className="flex h-full flex-1 flex-col justify-end"
+            title={`${day.date}: ${formatTokens(day.totalTokens)} tokens, ${day.requests} requests, ${formatCost(day.costUsd)}`}
+          >
+            <div className="bg-purple-400" style={{ height: `${(day.completionTokens / max) * 100}%` }} />
+            <div className="rounded-b-sm bg-indigo-500" style={{ height: `${(day.promptTokens / max) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-gray-400">
+        <span>{days[0]?.date}</span>
+        <span>{days[days.length - 1]?.date}</span>
+      </div>
+      <div className="mt-2 flex gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-indigo-500" /> Prompt
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-purple-400" /> Completion
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * @dev Requests, tokens and cost for a period
+ */
+export function UsageSummary({ totals }: { totals: UsageTotals }) {
+  const items = [
+    { label: 'Requests', value: String(totals.requests) },
+    { label: 'Tokens', value: formatTokens(totals.totalTokens) },
+    { label: 'Estimated cost', value: formatCost(totals.costUsd) },
+  ];
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {items.map((item) => (
+        <div key={item.label} className="rounded-lg border bg-gray-50 px-3 py-2">
+          <div className="text-xs text-gray-500">{item.label}</div>
+          <div className="text-lg font-semibold text-gray-900">{item.value}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * @dev Period selector shared by the usage sections
+ */
+export function UsagePeriodPicker({ value, onChange }: { value: number; onChange: (days: number) => void }) {
+  return (
+    <div className="flex rounded-lg border text-xs">
+      {USAGE_PERIODS.map((days) => (
+        <button
+          key={days}
+          type="button"
+          onClick={() => onChange(days)}
+          className={days === value ? 'bg-indigo-50 px-2.5 py-1 font-medium text-indigo-700' : 'px-2.5 py-1 text-gray-500 hover:bg-gray-50'}
+        >
+          {days}d
+        </button>
+      ))}
+    </div>
+  );
+}
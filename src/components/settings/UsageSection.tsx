@@ -0,0 +1,94 @@
+/**
+ * @dev Settings section showing the user's own token usage
+ * Features: period picker, daily token chart, totals with estimated cost, most expensive chats
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  formatCost,
+  formatTokens,
+  UsageChart,
+  UsagePeriodPicker,
+  UsageSummary,
+  type DailyUsage,
+  type UsageTotals,
+} from '@/components/settings/UsageChart';
+
+interface UsageReport {
+  totals: UsageTotals;
+  days: DailyUsage[];
+  chats: (UsageTotals & { chatId: string; title: string | null })[];
+}
+
+const TOP_CHATS = 5;
+
+export default function UsageSection() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setError('');
+    fetch(`/api/usage?days=${days}`, { cache: 'no-store' })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load usage');
+        if (!cancelled) setReport(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load usage');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  return (
+    <section className="rounded-xl border bg-white p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Usage</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Tokens your tutoring sessions used, including summaries of long chats. Costs are estimates.
+          </p>
+        </div>
+        <UsagePeriodPicker value={days} onChange={setDays} />
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {report && (
+        <div className="mt-4 space-y-4">
+          <UsageSummary totals={report.totals} />
+          <UsageChart days={report.days} />
+
+          {report.chats.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700">Top chats</h3>
+              <ul className="mt-2 divide-y text-sm">
+                {report.chats.slice(0, TOP_CHATS).map((chat) => (
+                  <li key={chat.chatId} className="flex items-center justify-between py-1.5">
+                    {chat.title ? (
+                      <Link href={`/dashboard?chatId=${chat.chatId}`} className="truncate text-indigo-600 hover:underline">
+                        {chat.title}
+                      </Link>
+                    ) : (
+                      <span className="truncate text-gray-400">Deleted chat</span>
+                    )}
+                    <span className="ml-4 shrink-0 text-gray-500">
+                      {formatTokens(chat.totalTokens)} · {formatCost(chat.costUsd)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * @dev Account data export/import
+ * Bundles a user's profile, chats, attachments and mem0 memories into a
+ * versioned JSON archive, and restores such an archive into another account
+ * (possibly on another deployment) with fresh chat ids.
+ */
+
+import {
+  encodeEmail,
+  generateId,
+  updateJson,
+  uploadJson,
+} from '@/lib/storage';
+import { getUser, userBlobPath, type StoredUser } from '@/lib/users';
+import { upsertChatIndexEntry } from '@/lib/chat-index';
+import { chatBlobPath, listChats } from '@/lib/chats';
+import { ChatSchemaError, upgradeChat, type StoredChat, type StoredMessage } from '@/lib/chat-schema';
+import {
+  listAttachments,
+  readAttachment,
+  storeAttachment,
+  type AttachmentRecord,
+} from '@/lib/attachments';
+import { mem0QueryMemories, mem0UpsertMemory } from '@/lib/mem0';
+
+export const ACCOUNT_ARCHIVE_FORMAT = 'algosensei-export';
+export const ACCOUNT_ARCHIVE_VERSION = 1;
+
+export interface AccountArchive {
+  format: typeof ACCOUNT_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Profile fields only; credentials never leave the deployment */
+  user: Omit<StoredUser, '_id' | 'password'>;
+  /** Current-schema chats (older archives may hold unversioned ones) */
+  chats: StoredChat[];
+  attachments: (Omit<AttachmentRecord, 'userEmail'> & { data: string })[];
+  memories: Array<{ content: string; metadata?: Record<string, unknown> }>;
+}
+
+export interface ImportSummary {
+  chats: number;
+  attachments: number;
+  memories: number;
+}
+
+/**
+ * Thrown when an uploaded archive is malformed or from an unsupported version.
+ */
+export class ArchiveValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveValidationError';
+  }
+}
+
+export async function buildAccountArchive(userEmail: string): Promise<AccountArchive> {
+  const emailKey = encodeEmail(userEmail);
+
+  const user = await getUser(userEmail);
+  if (!user) throw new Error('User not found');
+  const { _id, password, ...profile } = user;
+
+  const chats = await listChats(emailKey);
+
+  const attachments: AccountArchive['attachments'] = [];
+  for (const { userEmail: owner, ...record } of await listAttachments(userEmail)) {
+    const attachment = await readAttachment(owner, record._id);
+    if (attachment) attachments.push({ ...record, data: attachment.data.toString('base64') });
+  }
+
+  const memories = (await mem0QueryMemories(userEmail)).map(
+    (m: { content: string; metadata?: Record<string, unknown> }) => ({ content: m.content, metadata: m.metadata })
+  );
+
+  return {
+    format: ACCOUNT_ARCHIVE_FORMAT,
+    version: ACCOUNT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: profile,
+    chats,
+    attachments,
+    memories,
+  };
+}
+
+function validateArchive(input: unknown): AccountArchive {
+  if (!input || typeof input !== 'object') {
+    throw new ArchiveValidationError('Archive must be a JSON object');
+  }
+  const archive = input as Partial<AccountArchive>;
+  if (archive.format !== ACCOUNT_ARCHIVE_FORMAT) {
+    throw new ArchiveValidationError('Not an AlgoSensei export file');
+  }
+  if (typeof archive.version !== 'number' || archive.version > ACCOUNT_ARCHIVE_VERSION) {
+    throw new ArchiveValidationError(`Unsupported archive version: ${archive.version}`);
+  }
+  if (!Array.isArray(archive.chats) || !Array.isArray(archive.attachments) || !Array.isArray(archive.memories)) {
+    throw new ArchiveValidationError('Archive is missing chats, attachments or memories');
+  }
+  // Attachments are stored before chats, so a bad entry must be caught before anything is written
+  for (const attachment of archive.attachments as unknown[]) {
+    const entry = (attachment ?? {}) as Partial<Record<'_id' | 'name' | 'data', unknown>>;
+    if (typeof entry._id !== 'string' || typeof entry.name !== 'string' || typeof entry.data !== 'string') {
+      throw new ArchiveValidationError('Archive has an attachment without an id, name or data');
+    }
+  }
+  return archive as AccountArchive;
+}
+
+// Point message attachment references at the ids they were stored under here
+function remapAttachmentIds(message: StoredMessage, idMap: Map<string, string>): StoredMessage {
+  if (!message.attachmentIds) return message;
+  return {
+    ...message,
+    attachmentIds: message.attachmentIds
+      .map((id) => idMap.get(id))
+      .filter((id): id is string => !!id),
+  };
+}
+
+// Archived chats may predate the current schema; upgrade them like stored ones
+function upgradeArchivedChat(chat: unknown, userEmail: string): StoredChat {
+  try {
+    const fields = chat && typeof chat === 'object' ? chat : {};
+    return upgradeChat({ _id: generateId(), ...fields, userEmail }).chat;
+  } catch (err) {
+    if (err instanceof ChatSchemaError) throw new ArchiveValidationError(err.message);
+    throw err;
+  }
+}
+
+/**
+ * Restore an archive into the given account. Chats get new ids so an archive
+ * can be imported alongside existing data (or twice) without collisions.
+ */
+export async function restoreAccountArchive(userEmail: string, input: unknown): Promise<ImportSummary> {
+  const archive = validateArchive(input);
+  const emailKey = encodeEmail(userEmail);
+  // Validate every chat before writing anything
+  const chats = archive.chats.map((chat) => upgradeArchivedChat(chat, userEmail));
+
+  // Attachments first, so chats can reference the ids they end up under
+  const attachmentIds = new Map<string, string>();
+  for (const attachment of archive.attachments) {
+    const stored = await storeAttachment(userEmail, Buffer.from(attachment.data, 'base64'), attachment.name);
+    attachmentIds.set(attachment._id, stored._id);
+  }
+
+  for (const chat of chats) {
+    const chatId = generateId();
+    const restored: StoredChat = {
+      ...chat,
+      _id: chatId,
+      sessionId: null,
+      title: chat.title || 'Imported Discussion',
+      messages: chat.messages.map((m) => remapAttachmentIds(m, attachmentIds)),
+    };
+    await uploadJson(chatBlobPath(emailKey, chatId), restored, { ifNoneMatch: '*' });
+    await upsertChatIndexEntry(emailKey, restored);
+  }
+
+  // Only memories mem0 actually stored are counted (none when it is not configured)
+  let memories = 0;
+  for (const memory of archive.memories) {
+    if (!memory?.content) continue;
+    const stored = await mem0UpsertMemory({
+      userId: userEmail,
+      content: memory.content,
+      tags: ['imported'],
+      metadata: { ...memory.metadata, importedAt: new Date().toISOString() },
+    });
+    if (stored) memories++;
+  }
+
+  // Fill in profile fields the target account has not set yet
+  await updateJson<StoredUser>(userBlobPath(userEmail), (user) => ({
+    ...user,
+    name: user.name || archive.user?.name,
+    bio: user.bio || archive.user?.bio,
+    preferredLanguages: user.preferredLanguages?.length
+      ? user.preferredLanguages
+      : archive.user?.preferredLanguages,
+  }));
+
+  return {
+    chats: archive.chats.length,
+    attachments: archive.attachments.length,
+    memories,
+  };
+}
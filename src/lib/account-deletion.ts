@@ -0,0 +1,79 @@
+/**
+ * @dev Cascading account deletion
+ * Removes every blob owned by a user plus their mem0 memories, and leaves a
+ * PII-free tombstone that both audits the deletion and revokes old sessions.
+ */
+
+import { encodeEmail, deleteBlob, listBlobs, uploadJson } from '@/lib/storage';
+import { mem0DeleteMemories } from '@/lib/mem0';
+import {
+  hashEmail,
+  noteAccountDeleted,
+  tombstonePath,
+  userBlobPath,
+  type AccountTombstone,
+  type StoredUser,
+} from '@/lib/users';
+
+// Every prefix that holds per-user data; keep in sync with new storage areas
+function userDataPrefixes(emailKey: string): string[] {
+  return [
+    `chats/${emailKey}/`,
+    `chat-index/${emailKey}.json`,
+    `attachments/${emailKey}/`,
+    `rate-limits/${emailKey}/`,
+    `usage/${emailKey}/`,
+    // Data keys last, so a retried deletion can still read what is left
+    `keys/${emailKey}.json`,
+  ];
+}
+
+async function deletePrefix(prefix: string): Promise<string[]> {
+  const names = await listBlobs(prefix);
+  for (const name of names) {
+    await deleteBlob(name);
+  }
+  return names;
+}
+
+/**
+ * Delete an account and all of its data. The tombstone is written before any
+ * data is removed, so sessions stop working even if cleanup fails halfway.
+ */
+export async function deleteAccount(user: StoredUser): Promise<AccountTombstone> {
+  const emailKey = encodeEmail(user.email);
+  const deletedAt = Date.now();
+  const path = tombstonePath(user.email, deletedAt);
+
+  const tombstone: AccountTombstone = {
+    userId: user._id,
+    emailHash: hashEmail(user.email),
+    status: 'pending',
+    requestedAt: new Date(deletedAt).toISOString(),
+  };
+  await uploadJson(path, tombstone);
+  noteAccountDeleted(user.email, deletedAt);
+
+  const deleted = { chats: 0, attachments: 0, blobs: 0, memories: false };
+  for (const prefix of userDataPrefixes(emailKey)) {
+    const names = await deletePrefix(prefix);
+    deleted.blobs += names.length;
+    deleted.chats += names.filter((name) => name.startsWith(`chats/${emailKey}/`)).length;
+    deleted.attachments += names.filter((name) => name.startsWith(`attachments/${emailKey}/meta/`)).length;
+  }
+
+  deleted.memories = await mem0DeleteMemories(user.email);
+
+  // The user record goes last: until then the account can still be retried
+  if (await deleteBlob(userBlobPath(user.email))) deleted.blobs++;
+
+  const completed: AccountTombstone = {
+    ...tombstone,
+    status: 'completed',
+    completedAt: new Date().toISOString(),
+    deleted,
+  };
+  await uploadJson(path, completed);
+
+  return completed;
+}
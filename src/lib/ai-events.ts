@@ -0,0 +1,88 @@
+/**
+ * @dev Server-sent event protocol for the AI stream
+ * Shared by /api/ai (encoding) and ChatInterface (parsing), so both sides
+ * agree on event names and payloads. Every event is sent as
+ * `event: <type>\ndata: <json>\n\n`; a stream always ends with `done`.
+ */
+
+export type DiagramKind = 'svg' | 'mermaid';
+
+export type AiStreamEvent =
+  /** First event: id of the stored assistant message, used to resume the stream */
+  | { type: 'start'; messageId: string }
+  /** A piece of the assistant's reply text */
+  | { type: 'token'; text: string }
+  /** Teaching stage of the reply, once the server accepted it (see teaching-stages.ts) */
+  | { type: 'stage'; stage: number; label: string }
+  /** An SVG/Mermaid fenced block opened or closed in the reply */
+  | { type: 'diagram-start'; kind: DiagramKind }
+  | { type: 'diagram-end'; kind: DiagramKind }
+  /** Token usage for this completion; `estimated` when the provider did not report it */
+  | { type: 'usage'; promptTokens: number; completionTokens: number; totalTokens: number; estimated: boolean }
+  /** The reply was saved to the learner's long-term memory */
+  | { type: 'memory-updated' }
+  /** Generation failed; text already streamed is partial */
+  | { type: 'error'; message: string }
+  /** `stopped`: the learner stopped generation; the text so far is kept */
+  | { type: 'done'; reason: 'complete' | 'error' | 'stopped' };
+
+export type AiStreamEventType = AiStreamEvent['type'];
+
+/** "Stage N — label", as stored on assistant messages and shown in the badge */
+export function formatStage(stage: number, label: string): string {
+  return `Stage ${stage}${label ? ` — ${label}` : ''}`;
+}
+
+export function encodeAiEvent(event: AiStreamEvent): string {
+  const { type, ...payload } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`;
+}
+
+// Parse one `event:`/`data:` block; unknown or malformed blocks are ignored
+function parseBlock(block: string): AiStreamEvent | null {
+  let type = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) type = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  }
+  if (data.length === 0) return null;
+
+  try {
+    return { type, ...JSON.parse(data.join('\n')) } as AiStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Incremental parser: feed it decoded text as it arrives and it returns the
+ * events completed so far, keeping partial blocks for the next call.
+ */
+export function createAiEventParser() {
+  let buffer = '';
+
+  return function feed(text: string): AiStreamEvent[] {
+    buffer += text.replace(/\r\n/g, '\n');
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+    return blocks.map(parseBlock).filter((event): event is AiStreamEvent => event !== null);
+  };
+}
+
+/** Read an AI event stream to the end, calling `onEvent` for each event */
+export async function readAiEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AiStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const feed = createAiEventParser();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    feed(decoder.decode(value, { stream: true })).forEach(onEvent);
+  }
+  feed(decoder.decode() + '\n\n').forEach(onEvent);
+}
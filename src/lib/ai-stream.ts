@@ -0,0 +1,108 @@
+/**
+ * @dev Derives structured events from the assistant's streamed markdown
+ * Works line by line on the text deltas, so fences and markers split across
+ * chunks are still detected. Emits `diagram-start/end` for ```svg and
+ * ```mermaid blocks, and takes stage marker lines (`<!-- stage: {"to": 3} -->`,
+ * see teaching-stages.ts) out of the text: a line that may still turn out to
+ * be a marker is held back until it is complete.
+ */
+
+import type { AiStreamEvent, DiagramKind } from '@/lib/ai-events';
+
+const FENCE = /^\s*```\s*([\w-]*)\s*$/;
+const MARKER_PREFIX = '<!-- stage';
+const STAGE_MARKER = /^\s*<!--\s*stage\s*:?\s*(.*?)\s*-->\s*$/i;
+
+/** A stage the tutor reported for its reply; `to` is NaN when the marker is unreadable */
+export interface StageMarker {
+  to: number;
+}
+
+export interface AnalyzedText {
+  /** Text to show and store: the delta without stage markers */
+  text: string;
+  events: AiStreamEvent[];
+  markers: StageMarker[];
+}
+
+function parseStageMarker(line: string): StageMarker | null {
+  const match = STAGE_MARKER.exec(line);
+  if (!match) return null;
+  try {
+    const payload = JSON.parse(match[1]);
+    return { to: typeof payload === 'number' ? payload : Number(payload?.to) };
+  } catch {
+    return { to: NaN };
+  }
+}
+
+export function createReplyAnalyzer() {
+  let line = '';
+  // Start of the current line held back because it may be a stage marker
+  let held: string | null = '';
+  // Language of the fenced block we are inside, or null outside any fence
+  let openFence: string | null = null;
+
+  function analyzeLine(text: string): AiStreamEvent[] {
+    const fence = FENCE.exec(text);
+    if (!fence) return [];
+    if (openFence === null) {
+      openFence = fence[1].toLowerCase();
+      return isDiagram(openFence) ? [{ type: 'diagram-start', kind: openFence }] : [];
+    }
+    const closed = openFence;
+    openFence = null;
+    return isDiagram(closed) ? [{ type: 'diagram-end', kind: closed }] : [];
+  }
+
+  // Complete the current line: a marker is dropped, anything held is released
+  function endLine(result: AnalyzedText, newline: string) {
+    const marker = held !== null ? parseStageMarker(line) : null;
+    if (marker) {
+      result.markers.push(marker);
+    } else {
+      result.text += (held ?? '') + newline;
+      result.events.push(...analyzeLine(line));
+    }
+    line = '';
+    held = openFence === null ? '' : null;
+  }
+
+  return {
+    /** Feed a text delta; returns the text to show and events for every line it completed */
+    push(text: string): AnalyzedText {
+      const result: AnalyzedText = { text: '', events: [], markers: [] };
+      for (const char of text) {
+        if (char === '\n') {
+          endLine(result, '\n');
+          continue;
+        }
+        line += char;
+        if (held === null) {
+          result.text += char;
+          continue;
+        }
+        held += char;
+        const start = held.trimStart();
+        if (!MARKER_PREFIX.startsWith(start) && !start.startsWith(MARKER_PREFIX)) {
+          result.text += held;
+          held = null;
+        }
+      }
+      return result;
+    },
+
+    /** Flush the last unterminated line; closes a diagram the model left open */
+    flush(): AnalyzedText {
+      const result: AnalyzedText = { text: '', events: [], markers: [] };
+      if (line) endLine(result, '');
+      if (openFence !== null && isDiagram(openFence)) result.events.push({ type: 'diagram-end', kind: openFence });
+      openFence = null;
+      return result;
+    },
+  };
+}
+
+function isDiagram(language: string): language is DiagramKind {
+  return language === 'svg' || language === 'mermaid';
+}
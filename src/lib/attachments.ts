@@ -0,0 +1,187 @@
+/**
+ * @dev Image attachment storage
+ * Features: content-addressed (sha256) per-user blobs with dedupe, server-side
+ * thumbnails, size/dimension limits, data-URL resolution for model requests
+ *
+ * Layout (per user):
+ *   attachments/{emailKey}/meta/{id}.json   metadata
+ *   attachments/{emailKey}/data/{id}        original bytes
+ *   attachments/{emailKey}/thumbs/{id}.webp thumbnail
+ */
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import {
+  encodeEmail,
+  downloadJson,
+  listJsonBlobs,
+  uploadJson,
+  uploadBlob,
+  downloadBlob,
+  PreconditionFailedError,
+} from '@/lib/storage';
+
+export interface AttachmentRecord {
+  _id: string;
+  userEmail: string;
+  name: string;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+export type AttachmentVariant = 'original' | 'thumb';
+
+export const MAX_ATTACHMENT_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES) || 10 * 1024 * 1024;
+export const MAX_ATTACHMENT_DIMENSION = Number(process.env.ATTACHMENT_MAX_DIMENSION) || 4096;
+const THUMBNAIL_SIZE = 256;
+
+// sharp format name -> MIME type for the formats we accept
+const ACCEPTED_FORMATS: Record<string, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+/**
+ * Thrown for uploads that fail validation; `status` is the HTTP status to return.
+ */
+export class AttachmentValidationError extends Error {
+  constructor(message: string, public readonly status: 400 | 413 = 400) {
+    super(message);
+    this.name = 'AttachmentValidationError';
+  }
+}
+
+function metaPath(emailKey: string, id: string) {
+  return `attachments/${emailKey}/meta/${id}.json`;
+}
+
+function dataPath(emailKey: string, id: string) {
+  return `attachments/${emailKey}/data/${id}`;
+}
+
+function thumbPath(emailKey: string, id: string) {
+  return `attachments/${emailKey}/thumbs/${id}.webp`;
+}
+
+/** True for blobs that hold raw attachment bytes rather than JSON */
+export function isAttachmentBinaryPath(blobPath: string): boolean {
+  return /^attachments\/[^/]+\/(data|thumbs)\//.test(blobPath);
+}
+
+export function isAttachmentId(id: unknown): id is string {
+  return typeof id === 'string' && /^[a-f0-9]{64}$/.test(id);
+}
+
+/**
+ * Validate, dedupe and store an uploaded image for a user.
+ * Identical bytes uploaded twice resolve to the same record.
+ */
+export async function storeAttachment(
+  userEmail: string,
+  data: Buffer,
+  name: string
+): Promise<AttachmentRecord> {
+  if (data.length === 0) {
+    throw new AttachmentValidationError('File is empty');
+  }
+  if (data.length > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentValidationError(
+      `File exceeds the ${Math.round(MAX_ATTACHMENT_BYTES / (1024 * 1024))} MB limit`,
+      413
+    );
+  }
+
+  const emailKey = encodeEmail(userEmail);
+  const id = createHash('sha256').update(data).digest('hex');
+
+  const existing = await downloadJson<AttachmentRecord>(metaPath(emailKey, id));
+  if (existing) return existing;
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data).metadata();
+  } catch {
+    throw new AttachmentValidationError('File is not a readable image');
+  }
+
+  const contentType = metadata.format ? ACCEPTED_FORMATS[metadata.format] : undefined;
+  if (!contentType) {
+    throw new AttachmentValidationError('Unsupported image type (use PNG, JPEG, GIF or WebP)');
+  }
+
+  const width = metadata.width ?? 0;
+  const height = metadata.height ?? 0;
+  if (width > MAX_ATTACHMENT_DIMENSION || height > MAX_ATTACHMENT_DIMENSION) {
+    throw new AttachmentValidationError(
+      `Image dimensions exceed ${MAX_ATTACHMENT_DIMENSION}x${MAX_ATTACHMENT_DIMENSION}`
+    );
+  }
+
+  const thumbnail = await sharp(data)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  await uploadBlob(dataPath(emailKey, id), data, contentType);
+  await uploadBlob(thumbPath(emailKey, id), thumbnail, 'image/webp');
+
+  const record: AttachmentRecord = {
+    _id: id,
+    userEmail,
+    name: name.slice(0, 200),
+    contentType,
+    size: data.length,
+    width,
+    height,
+    createdAt: new Date().toISOString(),
+  };
+
+  // Metadata is written last so a record only exists once its bytes do
+  try {
+    await uploadJson(metaPath(emailKey, id), record, { ifNoneMatch: '*' });
+  } catch (err) {
+    if (!(err instanceof PreconditionFailedError)) throw err;
+    return (await downloadJson<AttachmentRecord>(metaPath(emailKey, id)))!;
+  }
+
+  return record;
+}
+
+export async function getAttachment(userEmail: string, id: string): Promise<AttachmentRecord | null> {
+  if (!isAttachmentId(id)) return null;
+  return downloadJson<AttachmentRecord>(metaPath(encodeEmail(userEmail), id));
+}
+
+/** All attachment records belonging to a user */
+export async function listAttachments(userEmail: string): Promise<AttachmentRecord[]> {
+  return listJsonBlobs<AttachmentRecord>(`attachments/${encodeEmail(userEmail)}/meta/`);
+}
+
+/** Read an attachment's bytes and content type, or null if it does not exist */
+export async function readAttachment(
+  userEmail: string,
+  id: string,
+  variant: AttachmentVariant = 'original'
+): Promise<{ data: Buffer; contentType: string } | null> {
+  const record = await getAttachment(userEmail, id);
+  if (!record) return null;
+
+  const emailKey = encodeEmail(userEmail);
+  const data = await downloadBlob(variant === 'thumb' ? thumbPath(emailKey, id) : dataPath(emailKey, id));
+  if (!data) return null;
+
+  return { data, contentType: variant === 'thumb' ? 'image/webp' : record.contentType };
+}
+
+/** Resolve an attachment into a base64 data URL for an `image_url` model part */
+export async function attachmentToDataUrl(userEmail: string, id: string): Promise<string | null> {
+  const attachment = await readAttachment(userEmail, id);
+  if (!attachment) return null;
+  return `data:${attachment.contentType};base64,${attachment.data.toString('base64')}`;
+}
@@ -0,0 +1,99 @@
+/**
+ * @dev NextAuth configuration shared by the auth route and server-side session checks
+ * Features: credentials login against stored users, JWT sessions, revocation of
+ * sessions that belong to deleted accounts
+ */
+
+import type { AuthOptions, User } from "next-auth";
+import CredentialsProvider from "next-auth/providers/credentials";
+import bcrypt from "bcryptjs";
+import { getUser, getAccountDeletedAt } from "@/lib/users";
+
+interface CustomUser extends User {
+  username: string;
+  name?: string;
+  image?: string;
+  bio?: string;
+  preferredLanguages?: string[];
+}
+
+export const authOptions: AuthOptions = {
+  providers: [
+    CredentialsProvider({
+      name: "credentials",
+      credentials: {
+        username: { label: "Username", type: "text" },
+        email: { label: "Email", type: "email" },
+        password: { label: "Password", type: "password" }
+      },
+      async authorize(credentials): Promise<CustomUser | null> {
+        if (!credentials?.email || !credentials?.password) {
+          throw new Error('Invalid credentials');
+        }
+
+        const user = await getUser(credentials.email);
+
+        if (!user) {
+          throw new Error('No user found');
+        }
+
+        const isPasswordValid = await bcrypt.compare(
+          credentials.password,
+          user.password
+        );
+
+        if (!isPasswordValid) {
+          throw new Error('Invalid password');
+        }
+
+        return {
+          id: user._id,
+          email: user.email,
+          username: user.username,
+          name: user.name || '',
+          image: user.image || '',
+          bio: user.bio || '',
+          preferredLanguages: user.preferredLanguages || [],
+        };
+      }
+    })
+  ],
+  session: {
+    strategy: "jwt"
+  },
+  pages: {
+    signIn: '/auth/login',
+    newUser: '/auth/register'
+  },
+  callbacks: {
+    async jwt({ token, user, trigger, session }) {
+      if (user) {
+        token.user = user as CustomUser;
+        return token;
+      }
+
+      // Tokens issued before the account was deleted are dead. Throwing makes
+      // NextAuth return an empty session and clear the cookie.
+      if (token.email && token.iat) {
+        const deletedAt = await getAccountDeletedAt(token.email);
+        if (deletedAt !== null && (token.iat as number) * 1000 <= deletedAt) {
+          throw new Error('Session belongs to a deleted account');
+        }
+      }
+
+      if (trigger === "update" && session?.user) {
+        token.user = {
+          ...(token.user as CustomUser),
+          ...(session.user as CustomUser)
+        };
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      if (token.user) {
+        session.user = token.user as CustomUser;
+      }
+      return session;
+    }
+  }
+};
@@ -0,0 +1,55 @@
+/**
+ * @dev Builds the model conversation from a stored chat
+ * The history always comes from storage, never from the client, so a learner
+ * cannot rewrite earlier turns and requests stay small.
+ */
+
+import { attachmentToDataUrl, isAttachmentId } from '@/lib/attachments';
+import { estimateMessageTokens, type ChatMessage, type ContentPart } from '@/lib/llm';
+import type { StoredMessage } from '@/lib/chat-schema';
+
+// Stored attachments (and legacy inline images) become image_url parts
+async function messageImages(userEmail: string, message: StoredMessage): Promise<string[]> {
+  if (message.role !== 'user') return [];
+
+  const ids = (message.attachmentIds ?? []).filter(isAttachmentId);
+  const urls = await Promise.all(ids.map((id) => attachmentToDataUrl(userEmail, id)));
+  return [...urls.filter((url): url is string => !!url), ...(message.images ?? [])];
+}
+
+/** A stored message converted for the model, with its estimated size */
+export interface ContextEntry {
+  id: string;
+  message: ChatMessage;
+  tokens: number;
+}
+
+async function toModelMessage(userEmail: string, message: StoredMessage): Promise<ChatMessage | null> {
+  const text = message.content.trim();
+  const images = await messageImages(userEmail, message);
+  if (!text && images.length === 0) return null;
+
+  if (images.length === 0) return { role: message.role, content: text };
+
+  const parts: ContentPart[] = [
+    ...(text ? [{ type: 'text' as const, text }] : []),
+    ...images.map((url) => ({ type: 'image_url' as const, image_url: { url, detail: 'auto' as const } })),
+  ];
+  return { role: message.role, content: parts };
+}
+
+/** Convert stored messages into provider messages with token estimates, dropping empty ones */
+export async function toContextEntries(userEmail: string, messages: StoredMessage[]): Promise<ContextEntry[]> {
+  const converted = await Promise.all(
+    messages.map(async (stored): Promise<ContextEntry | null> => {
+      const message = await toModelMessage(userEmail, stored);
+      return message ? { id: stored.id, message, tokens: estimateMessageTokens([message]) } : null;
+    })
+  );
+  return converted.filter((entry): entry is ContextEntry => entry !== null);
+}
+
+/** Convert stored messages into provider messages, dropping empty ones */
+export async function toModelMessages(userEmail: string, messages: StoredMessage[]): Promise<ChatMessage[]> {
+  return (await toContextEntries(userEmail, messages)).map((entry) => entry.message);
+}
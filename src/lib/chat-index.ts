@@ -0,0 +1,182 @@
+/**
+ * @dev Lightweight per-user chat index
+ * Keeps one small document per user (`chat-index/{emailKey}.json`) with just
+ * what the sidebar needs, so listing chats never downloads full transcripts.
+ */
+
+import {
+  downloadJson,
+  listJsonBlobs,
+  updateJson,
+  uploadJson,
+  PreconditionFailedError,
+} from '@/lib/storage';
+
+export interface ChatIndexEntry {
+  _id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  tags: string[];
+  /** Set while the chat is in the trash */
+  deletedAt?: string;
+}
+
+interface ChatIndex {
+  entries: ChatIndexEntry[];
+}
+
+/** The subset of a stored chat the index is derived from */
+export interface IndexableChat {
+  _id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: unknown[];
+  tags?: string[];
+  deletedAt?: string;
+}
+
+export interface ChatIndexPage {
+  chats: ChatIndexEntry[];
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// The index is rewritten on every chat change, so allow more retries than a single chat
+const INDEX_UPDATE_ATTEMPTS = 10;
+
+export function chatIndexPath(emailKey: string): string {
+  return `chat-index/${emailKey}.json`;
+}
+
+export function toChatIndexEntry(chat: IndexableChat): ChatIndexEntry {
+  return {
+    _id: chat._id,
+    title: chat.title,
+    createdAt: chat.createdAt,
+    updatedAt: chat.updatedAt,
+    messageCount: chat.messages.length,
+    tags: chat.tags ?? [],
+    ...(chat.deletedAt ? { deletedAt: chat.deletedAt } : {}),
+  };
+}
+
+type SortKey = Pick<ChatIndexEntry, 'updatedAt' | '_id'>;
+
+// Most recently updated first; id breaks ties so the order is total (required for cursors)
+function compareEntries(a: SortKey, b: SortKey): number {
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt < b.updatedAt ? 1 : -1;
+  if (a._id === b._id) return 0;
+  return a._id < b._id ? 1 : -1;
+}
+
+function encodeCursor(entry: ChatIndexEntry): string {
+  return Buffer.from(`${entry.updatedAt}|${entry._id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): SortKey | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString();
+  const separator = decoded.lastIndexOf('|');
+  if (separator <= 0) return null;
+  return { updatedAt: decoded.slice(0, separator), _id: decoded.slice(separator + 1) };
+}
+
+/**
+ * Build the index from the full chat blobs. Used to backfill users whose
+ * chats predate the index; this is the only place that reads every transcript.
+ */
+async function buildChatIndex(emailKey: string): Promise<ChatIndex> {
+  const chats = await listJsonBlobs<IndexableChat>(`chats/${emailKey}/`);
+  return { entries: chats.map(toChatIndexEntry).sort(compareEntries) };
+}
+
+async function loadChatIndex(emailKey: string): Promise<ChatIndex> {
+  const existing = await downloadJson<ChatIndex>(chatIndexPath(emailKey));
+  if (existing) return existing;
+
+  const built = await buildChatIndex(emailKey);
+  try {
+    await uploadJson(chatIndexPath(emailKey), built, { ifNoneMatch: '*' });
+  } catch (err) {
+    // Another request built it first; theirs is just as good
+    if (!(err instanceof PreconditionFailedError)) throw err;
+  }
+  return built;
+}
+
+// `mutate` returns null to leave the index as it is
+async function mutateChatIndex(emailKey: string, mutate: (entries: ChatIndexEntry[]) => ChatIndexEntry[] | null) {
+  const path = chatIndexPath(emailKey);
+  let found = false;
+  const apply = (index: ChatIndex): ChatIndex | null => {
+    found = true;
+    const entries = mutate(index.entries);
+    return entries && { entries: entries.sort(compareEntries) };
+  };
+
+  await updateJson<ChatIndex>(path, apply, { maxAttempts: INDEX_UPDATE_ATTEMPTS });
+  if (found) return;
+
+  // No index yet: build one (which already reflects the change) and retry the mutation on top
+  await loadChatIndex(emailKey);
+  await updateJson<ChatIndex>(path, apply, { maxAttempts: INDEX_UPDATE_ATTEMPTS });
+}
+
+/**
+ * Insert or replace a chat's index entry. The index is written after the chat
+ * itself, so a slower request can arrive with an older snapshot; an entry
+ * older than the indexed one is ignored.
+ */
+export async function upsertChatIndexEntry(emailKey: string, chat: IndexableChat): Promise<void> {
+  const entry = toChatIndexEntry(chat);
+  await mutateChatIndex(emailKey, (entries) => {
+    const indexed = entries.find((e) => e._id === entry._id);
+    if (indexed && indexed.updatedAt > entry.updatedAt) return null;
+    return [...entries.filter((e) => e._id !== entry._id), entry];
+  });
+}
+
+/** Remove a chat's index entry (no-op if it is not indexed) */
+export async function removeChatIndexEntry(emailKey: string, chatId: string): Promise<void> {
+  await mutateChatIndex(emailKey, (entries) => entries.filter((e) => e._id !== chatId));
+}
+
+/** Every index entry for a user, trashed or not, most recent first */
+export async function getChatIndexEntries(emailKey: string): Promise<ChatIndexEntry[]> {
+  return (await loadChatIndex(emailKey)).entries;
+}
+
+/**
+ * Return one page of a user's chats, most recent first.
+ * `cursor` is the opaque `nextCursor` from the previous page; `trashed`
+ * selects the trash instead of the active chats.
+ */
+export async function listChatIndex(
+  emailKey: string,
+  options: { cursor?: string | null; limit?: number; trashed?: boolean } = {}
+): Promise<ChatIndexPage> {
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const trashed = options.trashed ?? false;
+  const entries = (await getChatIndexEntries(emailKey)).filter((e) => !!e.deletedAt === trashed);
+
+  let start = 0;
+  if (options.cursor) {
+    const after = decodeCursor(options.cursor);
+    if (after) {
+      const position = entries.findIndex((e) => compareEntries(e, after) > 0);
+      start = position === -1 ? entries.length : position;
+    }
+  }
+
+  const chats = entries.slice(start, start + limit);
+  const hasMore = start + limit < entries.length;
+
+  return {
+    chats,
+    nextCursor: hasMore && chats.length > 0 ? encodeCursor(chats[chats.length - 1]) : null,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * @dev Batch chat schema migration
+ * Walks every stored chat and persists it at the current schema version, so
+ * old blobs do not have to wait for their next write to be normalized.
+ */
+
+import { downloadJson, listBlobs } from '@/lib/storage';
+import { upgradeChat, type StoredChat } from '@/lib/chat-schema';
+import { updateChat } from '@/lib/chats';
+import { storeAttachment } from '@/lib/attachments';
+
+export type ChatMigrationStatus = 'migrated' | 'current' | 'failed';
+
+export interface ChatMigrationResult {
+  migrated: number;
+  current: number;
+  failed: number;
+}
+
+const CHAT_PATH = /^chats\/([^/]+)\/([^/]+)\.json$/;
+
+// Upload inline data-URL images as attachments; returns data URL -> attachment id
+async function extractInlineImages(chat: StoredChat): Promise<Map<string, string>> {
+  const ids = new Map<string, string>();
+  for (const message of chat.messages) {
+    for (const [index, url] of (message.images ?? []).entries()) {
+      const match = /^data:[^;,]+;base64,(.*)$/.exec(url);
+      if (!match || ids.has(url)) continue;
+      const stored = await storeAttachment(chat.userEmail, Buffer.from(match[1], 'base64'), `${message.id}-${index}`);
+      ids.set(url, stored._id);
+    }
+  }
+  return ids;
+}
+
+function hasInlineImages(chat: StoredChat): boolean {
+  return chat.messages.some((message) => message.images?.length);
+}
+
+/**
+ * Rewrite every stored chat at the current schema version. With
+ * `extractImages`, legacy inline images are also moved into attachments.
+ * Safe to re-run: up-to-date documents are left untouched.
+ */
+export async function migrateChatDocuments(
+  options: {
+    prefix?: string;
+    dryRun?: boolean;
+    extractImages?: boolean;
+    onProgress?: (blobPath: string, status: ChatMigrationStatus, error?: unknown) => void;
+  } = {}
+): Promise<ChatMigrationResult> {
+  const { prefix = 'chats/', dryRun = false, extractImages = false, onProgress } = options;
+  const result: ChatMigrationResult = { migrated: 0, current: 0, failed: 0 };
+
+  for (const blobPath of await listBlobs(prefix)) {
+    const match = CHAT_PATH.exec(blobPath);
+    if (!match) continue;
+
+    try {
+      const raw = await downloadJson<unknown>(blobPath);
+      if (raw === null) continue;
+
+      const { chat, migrated } = upgradeChat(raw);
+      const extract = extractImages && hasInlineImages(chat);
+      if (!migrated && !extract) {
+        result.current++;
+        onProgress?.(blobPath, 'current');
+        continue;
+      }
+
+      if (!dryRun) {
+        const imageIds = extract ? await extractInlineImages(chat) : new Map<string, string>();
+        await updateChat(match[1], match[2], (latest) => {
+          for (const message of latest.messages) {
+            const moved = (message.images ?? []).map((url) => imageIds.get(url));
+            if (!moved.length || moved.some((id) => !id)) continue;
+            message.attachmentIds = moved as string[];
+            delete message.images;
+          }
+          return latest;
+        });
+      }
+
+      result.migrated++;
+      onProgress?.(blobPath, 'migrated');
+    } catch (error) {
+      result.failed++;
+      onProgress?.(blobPath, 'failed', error);
+    }
+  }
+
+  return result;
+}
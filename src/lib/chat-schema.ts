@@ -0,0 +1,327 @@
+/**
+ * @dev Chat document schema
+ * Single definition of the stored chat/message shape shared by every route,
+ * plus the migrations that upgrade older documents to the current version.
+ *
+ * Versions:
+ *   0  unversioned documents written before this schema existed. Messages may
+ *      carry multimodal `content` parts, inline base64 `images`, and
+ *      `isLoading` / `sessionId` leftovers from the client.
+ *   1  `schemaVersion` field; message content is always a string, images are
+ *      attachment ids (or legacy inline data URLs in `images`), createdAt is an
+ *      ISO string and client-only fields are dropped.
+ *   2  messages form a tree: every message has a `parentId` (null for the
+ *      first one) and `activeLeafId` marks the branch being shown. Editing an
+ *      earlier message adds a sibling instead of rewriting history
+ *      (see chat-tree.ts).
+ */
+
+import type { TutorMode } from '@/lib/tutor-modes';
+import type { InterviewCriterion, InterviewDifficulty, InterviewTopic, InterviewVerdict } from '@/lib/interview/rubric';
+
+export const CHAT_SCHEMA_VERSION = 2;
+
+export type MessageRole = 'user' | 'assistant';
+
+export interface StoredMessage {
+  id: string;
+  /** Message this one answers or follows; null for the first message of a chat */
+  parentId: string | null;
+  role: MessageRole;
+  content: string;
+  createdAt: string;
+  stage?: string;
+  /**
+   * Assistant replies only: `streaming` while being generated, `incomplete`
+   * when generation failed or was interrupted, `stopped` when the learner
+   * stopped it. Absent once complete.
+   */
+  status?: 'streaming' | 'incomplete' | 'stopped';
+  /** Every generated answer of a regenerated reply; the fields above mirror the selected one */
+  variants?: MessageVariant[];
+  /** Index of the selected entry in `variants` */
+  activeVariant?: number;
+  /** Assistant replies only: prompt module versions the reply was generated with (see lib/prompts) */
+  promptVersion?: string;
+  /** Stored attachments, resolved into image parts server-side */
+  attachmentIds?: string[];
+  /** Legacy inline data URLs; never written for new messages */
+  images?: string[];
+}
+
+export interface MessageVariant {
+  content: string;
+  stage?: string;
+  status?: StoredMessage['status'];
+  promptVersion?: string;
+  createdAt: string;
+}
+
+/** Rolling summary of the older part of a conversation (see context-window.ts) */
+export interface ChatSummary {
+  text: string;
+  /** Last message the summary covers; it is only reused on branches containing it */
+  throughMessageId: string;
+  tokens: number;
+  createdAt: string;
+}
+
+/** Where the Socratic walkthrough of the chat stands (see teaching-stages.ts) */
+export interface TeachingState {
+  /** Current stage, 1-6 */
+  stage: number;
+  /** Stage the learner asked to skip ahead to; the tutor may move there on its next replies */
+  skipTo?: number;
+  /** Applied stage changes, oldest first (capped) */
+  history: StageTransition[];
+  /** The tutor's last proposed move, when it was refused; reported to the tutor on the next turn */
+  rejected?: { to: number; reason: string };
+}
+
+export interface StageTransition {
+  from: number;
+  to: number;
+  /** `tutor` for a validated stage marker in a reply, `learner` for a jump back from the progress bar */
+  by: 'tutor' | 'learner';
+  /** Reply (tutor) or message (learner) that made the change */
+  messageId?: string;
+  at: string;
+}
+
+/** A timed mock interview run in the chat (see lib/interview) */
+export interface InterviewSession {
+  /** `grading` while the debrief is being written */
+  status: 'active' | 'grading' | 'completed';
+  problem: {
+    id: string;
+    title: string;
+    difficulty: InterviewDifficulty;
+    topic: InterviewTopic;
+  };
+  durationMinutes: number;
+  startedAt: string;
+  endsAt: string;
+  hintsUsed: number;
+  endedAt?: string;
+  debrief?: InterviewDebrief;
+}
+
+/** Rubric scores of a finished interview; the overall score and verdict are computed server-side */
+export interface InterviewDebrief {
+  scores: Record<InterviewCriterion, { score: number; notes: string }>;
+  /** Subtracted from the average score for the hints taken */
+  hintPenalty: number;
+  overall: number;
+  verdict: InterviewVerdict;
+  summary: string;
+  strengths: string[];
+  improvements: string[];
+  createdAt: string;
+}
+
+export interface StoredChat {
+  schemaVersion: number;
+  _id: string;
+  userEmail: string;
+  sessionId: string | null;
+  title: string;
+  /** Every message of every branch, in the order they were created */
+  messages: StoredMessage[];
+  /** Last message of the branch being shown; null for an empty chat */
+  activeLeafId: string | null;
+  /** Summary standing in for older turns once the history outgrew the context budget */
+  summary?: ChatSummary;
+  /** Prompt module versions of the latest reply */
+  promptVersion?: string;
+  /** How the tutor behaves in this chat; absent means the default (Socratic) mode */
+  mode?: TutorMode;
+  /** Socratic mode only; absent until the first stage change, which means stage 1 */
+  teaching?: TeachingState;
+  /** Set once a mock interview is started in the chat */
+  interview?: InterviewSession;
+  tags: string[];
+  /** Set while the chat is in the trash */
+  deletedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Thrown when a document or incoming message cannot be coerced into the schema.
+ */
+export class ChatSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatSchemaError';
+  }
+}
+
+type RawDocument = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawDocument {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// Dates arrive as ISO strings, epoch numbers or (from old clients) anything JSON.stringify produced
+function toIsoString(value: unknown, fallback: string): string {
+  if (typeof value !== 'string' && typeof value !== 'number') return fallback;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? fallback : date.toISOString();
+}
+
+/* ------------------------------------------------------------------ */
+/*  Migrations                                                         */
+/* ------------------------------------------------------------------ */
+
+// Split multimodal parts into text content and inline image URLs
+function flattenContent(content: unknown): { text: string; images: string[] } {
+  if (typeof content === 'string') return { text: content, images: [] };
+  if (!Array.isArray(content)) return { text: '', images: [] };
+
+  const text: string[] = [];
+  const images: string[] = [];
+  for (const part of content) {
+    if (!isRecord(part)) continue;
+    if (part.type === 'text' && typeof part.text === 'string') text.push(part.text);
+    if (part.type === 'image_url' && isRecord(part.image_url) && typeof part.image_url.url === 'string') {
+      images.push(part.image_url.url);
+    }
+  }
+  return { text: text.join('\n'), images };
+}
+
+type MessageV1 = Omit<StoredMessage, 'parentId'>;
+
+function migrateMessageV0(raw: unknown, index: number, chatCreatedAt: string): MessageV1 | null {
+  if (!isRecord(raw) || (raw.role !== 'user' && raw.role !== 'assistant')) return null;
+
+  const { text, images } = flattenContent(raw.content);
+  const allImages = [...stringArray(raw.images), ...images];
+  const attachmentIds = stringArray(raw.attachmentIds);
+
+  const message: MessageV1 = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `legacy-${index}`,
+    role: raw.role,
+    content: text,
+    createdAt: toIsoString(raw.createdAt, chatCreatedAt),
+  };
+  if (typeof raw.stage === 'string') message.stage = raw.stage;
+  if (attachmentIds.length) message.attachmentIds = attachmentIds;
+  // Inline copies are redundant once the message references stored attachments
+  else if (allImages.length) message.images = allImages;
+  return message;
+}
+
+function migrateV0ToV1(doc: RawDocument): RawDocument {
+  const now = new Date().toISOString();
+  const createdAt = toIsoString(doc.createdAt, now);
+  const messages = Array.isArray(doc.messages) ? doc.messages : [];
+
+  return {
+    ...doc,
+    schemaVersion: 1,
+    sessionId: typeof doc.sessionId === 'string' ? doc.sessionId : null,
+    title: typeof doc.title === 'string' && doc.title ? doc.title : 'New Discussion',
+    tags: stringArray(doc.tags),
+    createdAt,
+    updatedAt: toIsoString(doc.updatedAt, createdAt),
+    messages: messages
+      .map((message, index) => migrateMessageV0(message, index, createdAt))
+      .filter((message): message is MessageV1 => message !== null),
+  };
+}
+
+// The flat history becomes a single branch; ids are made unique so parent links are unambiguous
+function migrateV1ToV2(doc: RawDocument): RawDocument {
+  const seen = new Set<string>();
+  let parentId: string | null = null;
+
+  const messages = (doc.messages as MessageV1[]).map((message, index) => {
+    const id: string = seen.has(message.id) ? `${message.id}-${index}` : message.id;
+    seen.add(id);
+    const linked: StoredMessage = { ...message, id, parentId };
+    parentId = id;
+    return linked;
+  });
+
+  return { ...doc, schemaVersion: 2, messages, activeLeafId: parentId };
+}
+
+// MIGRATIONS[n] upgrades a version-n document to version n + 1
+const MIGRATIONS: Array<(doc: RawDocument) => RawDocument> = [migrateV0ToV1, migrateV1ToV2];
+
+export function getSchemaVersion(doc: unknown): number {
+  return isRecord(doc) && typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+}
+
+/**
+ * Upgrade a stored chat document to CHAT_SCHEMA_VERSION. Pure: the caller
+ * decides whether to persist the result (`migrated` tells it whether to).
+ */
+export function upgradeChat(doc: unknown): { chat: StoredChat; migrated: boolean } {
+  if (!isRecord(doc) || typeof doc._id !== 'string' || typeof doc.userEmail !== 'string') {
+    throw new ChatSchemaError('Not a chat document');
+  }
+
+  const from = getSchemaVersion(doc);
+  if (from > CHAT_SCHEMA_VERSION) {
+    throw new ChatSchemaError(`Chat ${doc._id} has schema version ${from}, newer than ${CHAT_SCHEMA_VERSION}`);
+  }
+
+  let upgraded = doc;
+  for (let version = from; version < CHAT_SCHEMA_VERSION; version++) {
+    upgraded = MIGRATIONS[version](upgraded);
+  }
+  return { chat: upgraded as unknown as StoredChat, migrated: from !== CHAT_SCHEMA_VERSION };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Validation of incoming data                                        */
+/* ------------------------------------------------------------------ */
+
+export function createChat(fields: Pick<StoredChat, '_id' | 'userEmail' | 'sessionId' | 'title'>): StoredChat {
+  const now = new Date().toISOString();
+  return {
+    schemaVersion: CHAT_SCHEMA_VERSION,
+    ...fields,
+    messages: [],
+    activeLeafId: null,
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Validate a message sent by a client and reduce it to the stored shape.
+ * Unknown fields are dropped; inline images are rejected (upload them first).
+ * `parentId` is left null: where a message goes in the tree is decided by the server.
+ */
+export function parseIncomingMessage(input: unknown): StoredMessage {
+  if (!isRecord(input)) throw new ChatSchemaError('Message must be an object');
+  if (input.role !== 'user' && input.role !== 'assistant') {
+    throw new ChatSchemaError('Message role must be "user" or "assistant"');
+  }
+  if (typeof input.content !== 'string') throw new ChatSchemaError('Message content must be a string');
+  if (input.images !== undefined || Array.isArray(input.content)) {
+    throw new ChatSchemaError('Inline images are not accepted; upload them as attachments');
+  }
+
+  const now = new Date().toISOString();
+  const message: StoredMessage = {
+    id: typeof input.id === 'string' && input.id ? input.id.slice(0, 64) : `${Date.now()}`,
+    parentId: null,
+    role: input.role,
+    content: input.content,
+    createdAt: toIsoString(input.createdAt, now),
+  };
+  if (typeof input.stage === 'string') message.stage = input.stage;
+
+  const attachmentIds = stringArray(input.attachmentIds);
+  if (attachmentIds.length) message.attachmentIds = attachmentIds;
+  return message;
+}
@@ -0,0 +1,59 @@
+/**
+ * @dev Trash bin for deleted chats
+ * Deleting a chat only stamps `deletedAt`; it stays restorable until it has
+ * been in the trash for TRASH_RETENTION_DAYS, after which it is purged by the
+ * scheduled job (`pnpm trash:purge`) or, sooner, when the user lists chats.
+ */
+
+import { deleteBlob, listBlobs } from '@/lib/storage';
+import { getChatIndexEntries, removeChatIndexEntry } from '@/lib/chat-index';
+import { chatBlobPath } from '@/lib/chats';
+
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When a chat trashed at `deletedAt` becomes eligible for purging */
+export function trashExpiresAt(deletedAt: string): Date {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/** Permanently remove a chat and its index entry */
+export async function purgeChat(emailKey: string, chatId: string): Promise<boolean> {
+  const deleted = await deleteBlob(chatBlobPath(emailKey, chatId));
+  await removeChatIndexEntry(emailKey, chatId);
+  return deleted;
+}
+
+/**
+ * Purge every trashed chat of one user past its retention period. It only
+ * reads the index, so it is cheap to call.
+ */
+export async function purgeExpiredTrash(emailKey: string, now = new Date()): Promise<number> {
+  const expired = (await getChatIndexEntries(emailKey)).filter(
+    (entry) => entry.deletedAt && trashExpiresAt(entry.deletedAt) <= now
+  );
+
+  for (const entry of expired) {
+    await purgeChat(emailKey, entry._id);
+  }
+  return expired.length;
+}
+
+/**
+ * Purge expired trash for every user that has a chat index (trashing a chat
+ * always writes one). Reports each user with something purged.
+ */
+export async function purgeAllExpiredTrash(
+  now = new Date(),
+  onPurged?: (emailKey: string, count: number) => void
+): Promise<number> {
+  let total = 0;
+  for (const name of await listBlobs('chat-index/')) {
+    const emailKey = name.slice('chat-index/'.length).replace(/\.json$/, '');
+    const count = await purgeExpiredTrash(emailKey, now);
+    if (count) onPurged?.(emailKey, count);
+    total += count;
+  }
+  return total;
+}
@@ -0,0 +1,103 @@
+/**
+ * @dev Message tree of a chat
+ * `messages` holds every message of every branch; `parentId` links each one
+ * to the message it follows and `activeLeafId` marks the branch being shown.
+ * The conversation the tutor sees is always the path from the root to a
+ * message, so editing an earlier message forks instead of rewriting history.
+ */
+
+import { generateId } from '@/lib/storage';
+import { ChatSchemaError, type StoredChat, type StoredMessage } from '@/lib/chat-schema';
+
+/** Position of a message among its siblings, for branch navigation */
+export interface BranchInfo {
+  index: number;
+  count: number;
+  siblingIds: string[];
+}
+
+/** A message as sent to the client: the active branch, annotated where it forks */
+export type MessageView = StoredMessage & { branch?: BranchInfo };
+
+export type ChatView = Omit<StoredChat, 'messages'> & { messages: MessageView[] };
+
+export function findMessage(chat: StoredChat, messageId: string): StoredMessage | undefined {
+  return chat.messages.find((m) => m.id === messageId);
+}
+
+export function childrenOf(chat: StoredChat, parentId: string | null): StoredMessage[] {
+  return chat.messages.filter((m) => m.parentId === parentId);
+}
+
+/** The conversation from the first message down to `messageId` (inclusive) */
+export function pathTo(chat: StoredChat, messageId: string | null): StoredMessage[] {
+  const byId = new Map(chat.messages.map((m) => [m.id, m]));
+  const path: StoredMessage[] = [];
+  for (let current = messageId ? byId.get(messageId) : undefined; current; ) {
+    path.push(current);
+    // Guard against a corrupted document linking back to itself
+    if (path.length > chat.messages.length) throw new ChatSchemaError(`Chat ${chat._id} has a cycle`);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/** The branch being shown */
+export function activePath(chat: StoredChat): StoredMessage[] {
+  return pathTo(chat, chat.activeLeafId);
+}
+
+// Follow the most recent child down to a leaf, so switching branches lands on its latest turn
+function latestLeaf(chat: StoredChat, messageId: string): string {
+  let leaf = messageId;
+  for (let children = childrenOf(chat, leaf); children.length; children = childrenOf(chat, leaf)) {
+    leaf = children[children.length - 1].id;
+  }
+  return leaf;
+}
+
+/** Show the branch that goes through `messageId` */
+export function selectBranch(chat: StoredChat, messageId: string) {
+  if (!findMessage(chat, messageId)) throw new ChatSchemaError(`Message ${messageId} not found`);
+  chat.activeLeafId = latestLeaf(chat, messageId);
+}
+
+/**
+ * Add a message under `parentId` (default: the end of the active branch) and
+ * make it the active leaf. Ids already used in the chat are replaced.
+ */
+export function appendMessage(
+  chat: StoredChat,
+  message: StoredMessage,
+  parentId: string | null = chat.activeLeafId
+): StoredMessage {
+  const appended: StoredMessage = {
+    ...message,
+    id: findMessage(chat, message.id) ? generateId() : message.id,
+    parentId,
+  };
+  chat.messages.push(appended);
+  chat.activeLeafId = appended.id;
+  return appended;
+}
+
+/**
+ * Fork at an earlier user message: the edited copy becomes a sibling of the
+ * original (which keeps its whole branch) and the new branch is selected.
+ */
+export function forkMessage(chat: StoredChat, messageId: string, edited: StoredMessage): StoredMessage {
+  const original = findMessage(chat, messageId);
+  if (!original || original.role !== 'user') throw new ChatSchemaError('Only your own messages can be edited');
+  return appendMessage(chat, edited, original.parentId);
+}
+
+/** The active branch with sibling positions on every message that has alternatives */
+export function toChatView(chat: StoredChat): ChatView {
+  const messages = activePath(chat).map((message): MessageView => {
+    const siblings = childrenOf(chat, message.parentId).filter((m) => m.role === message.role);
+    if (siblings.length < 2) return message;
+    const siblingIds = siblings.map((m) => m.id);
+    return { ...message, branch: { index: siblingIds.indexOf(message.id), count: siblingIds.length, siblingIds } };
+  });
+  return { ...chat, messages };
+}
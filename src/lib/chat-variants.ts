@@ -0,0 +1,76 @@
+/**
+ * @dev Alternative answers of an assistant message
+ * Regenerating a reply keeps every answer in `variants`. The message's own
+ * content/stage/status always mirror the selected variant, so the rest of
+ * the app (history, search, export) never needs to know variants exist.
+ */
+
+import { ChatSchemaError, type MessageVariant, type StoredMessage } from '@/lib/chat-schema';
+
+type VariantFields = Pick<MessageVariant, 'content' | 'stage' | 'status'>;
+
+function snapshot(message: StoredMessage): MessageVariant {
+  const variant: MessageVariant = { content: message.content, createdAt: message.createdAt };
+  if (message.stage) variant.stage = message.stage;
+  if (message.status) variant.status = message.status;
+  if (message.promptVersion) variant.promptVersion = message.promptVersion;
+  return variant;
+}
+
+function setPromptVersion(message: StoredMessage, promptVersion: string | undefined) {
+  if (promptVersion) message.promptVersion = promptVersion;
+  else delete message.promptVersion;
+}
+
+function applyToMessage(message: StoredMessage, fields: VariantFields) {
+  message.content = fields.content;
+  if (fields.stage) message.stage = fields.stage;
+  else delete message.stage;
+  if (fields.status) message.status = fields.status;
+  else delete message.status;
+}
+
+/**
+ * Start a new, empty `streaming` variant and select it. Messages without
+ * variants first get their current answer as variant 0. Returns its index.
+ */
+export function addVariant(message: StoredMessage, createdAt = new Date().toISOString(), promptVersion?: string): number {
+  if (message.role !== 'assistant') throw new ChatSchemaError('Only assistant replies can be regenerated');
+
+  const variants = message.variants ?? [snapshot(message)];
+  const variant: MessageVariant = { content: '', status: 'streaming', createdAt };
+  if (promptVersion) variant.promptVersion = promptVersion;
+  variants.push(variant);
+  message.variants = variants;
+  message.activeVariant = variants.length - 1;
+  applyToMessage(message, { content: '', status: 'streaming' });
+  setPromptVersion(message, promptVersion);
+  return message.activeVariant;
+}
+
+/** Select the variant used for display and as context for later turns */
+export function selectVariant(message: StoredMessage, index: number) {
+  const variant = message.variants?.[index];
+  if (!variant) throw new ChatSchemaError(`Message ${message.id} has no variant ${index}`);
+
+  message.activeVariant = index;
+  applyToMessage(message, variant);
+  setPromptVersion(message, variant.promptVersion);
+}
+
+/**
+ * Write a generated answer into the message. `index` is the variant being
+ * generated (undefined for a message without variants); the message itself
+ * only changes while that variant is selected.
+ */
+export function writeVariant(message: StoredMessage, index: number | undefined, fields: VariantFields) {
+  const variant = index === undefined ? undefined : message.variants?.[index];
+  if (variant) {
+    variant.content = fields.content;
+    if (fields.stage) variant.stage = fields.stage;
+    if (fields.status) variant.status = fields.status;
+    else delete variant.status;
+    if (message.activeVariant !== index) return;
+  }
+  applyToMessage(message, { ...fields, stage: fields.stage ?? message.stage });
+}
@@ -0,0 +1,47 @@
+/**
+ * @dev Chat document access
+ * Every read goes through upgradeChat, so routes only ever see the current
+ * schema; upgraded documents are persisted the next time they are written.
+ */
+
+import {
+  downloadJsonWithEtag,
+  listJsonBlobs,
+  updateJson,
+  type Versioned,
+} from '@/lib/storage';
+import { upgradeChat, type StoredChat } from '@/lib/chat-schema';
+
+export function chatBlobPath(emailKey: string, chatId: string): string {
+  return `chats/${emailKey}/${chatId}.json`;
+}
+
+/** Load a chat upgraded to the current schema; the etag is that of the stored document */
+export async function getChat(emailKey: string, chatId: string): Promise<Versioned<StoredChat> | null> {
+  const result = await downloadJsonWithEtag<unknown>(chatBlobPath(emailKey, chatId));
+  if (!result) return null;
+  return { data: upgradeChat(result.data).chat, etag: result.etag };
+}
+
+/** All of a user's chats (including trashed ones), upgraded to the current schema */
+export async function listChats(emailKey: string): Promise<StoredChat[]> {
+  const docs = await listJsonBlobs<unknown>(`chats/${emailKey}/`);
+  return docs.map((doc) => upgradeChat(doc).chat);
+}
+
+/**
+ * Conditional read-modify-write of a chat. The mutator receives the upgraded
+ * document, so the write also persists any pending migration.
+ */
+export function updateChat(
+  emailKey: string,
+  chatId: string,
+  mutate: (chat: StoredChat) => StoredChat | null,
+  options: { ifMatch?: string } = {}
+): Promise<Versioned<StoredChat> | null> {
+  return updateJson<StoredChat>(
+    chatBlobPath(emailKey, chatId),
+    (current) => mutate(upgradeChat(current).chat),
+    options
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * @dev Context-window management for /api/ai
+ * Keeps every request within LLM_CONTEXT_BUDGET tokens. Recent turns are sent
+ * verbatim; once the history no longer fits, older turns are replaced by a
+ * rolling summary (stage reached, the learner's approach, key mistakes) that
+ * is stored on the chat and extended, not rebuilt, on later turns.
+ */
+
+import { toContextEntries, type ContextEntry } from '@/lib/chat-context';
+import type { ChatSummary, StoredMessage } from '@/lib/chat-schema';
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  GenerationAbortedError,
+  type ChatMessage,
+  type LLMProvider,
+  type TokenUsage,
+} from '@/lib/llm';
+
+/** Total tokens per request: system prompt, memories, history and the reply */
+export const CONTEXT_BUDGET = Number(process.env.LLM_CONTEXT_BUDGET) || 32_000;
+
+// Room reserved for the summary when deciding how many recent turns fit
+const SUMMARY_MAX_TOKENS = 800;
+// When summarizing, recent turns fill only part of their room, so the summary
+// is extended every few turns instead of on every one
+const RECENT_SHARE_AFTER_SUMMARY = 0.6;
+// Share of the budget that learner memories may take
+const MEMORY_BUDGET_SHARE = 0.1;
+
+const SUMMARY_PROMPT = `You keep running notes on a DSA tutoring session between a learner and the tutor AlgoSensei.
+Update the notes with the new part of the conversation. Stay under 300 words and cover:
+- The problem being worked on (short statement and constraints)
+- The teaching stage reached (Stage 1-6) and what the learner confirmed at each stage
+- The learner's approach and ideas so far, in their own terms
+- Key mistakes or misconceptions, and whether they were resolved
+- Hints already given, and preferences such as language or pace
+Write plain bullet points. Leave out diagrams and code beyond one-line signatures.`;
+
+export interface ContextWindow {
+  /** History to send after the system prompt: the summary (if any), then recent turns */
+  messages: ChatMessage[];
+  summary: ChatSummary | null;
+  /** The summary was created or extended and should be stored on the chat */
+  summaryChanged: boolean;
+  /** Estimated tokens of `messages` */
+  tokens: number;
+  /** Tokens spent on summarizing, for accounting (null when no summary was written) */
+  usage: (TokenUsage & { estimated: boolean }) | null;
+}
+
+type SummaryUsage = NonNullable<ContextWindow['usage']>;
+
+/** Keep the memories (in mem0's ranking order) that fit in their share of the budget */
+export function fitMemories(memories: string[], budget = CONTEXT_BUDGET): string[] {
+  const limit = Math.floor(budget * MEMORY_BUDGET_SHARE);
+  const kept: string[] = [];
+  let used = 0;
+  for (const memory of memories) {
+    used += estimateTokens(memory) + 1;
+    if (used > limit) break;
+    kept.push(memory);
+  }
+  return kept;
+}
+
+function sumTokens(entries: ContextEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.tokens, 0);
+}
+
+// Diagrams and images make transcripts large and add little to a summary
+function transcriptLine(entry: ContextEntry, maxChars: number): string {
+  const { content, role } = entry.message;
+  const text =
+    typeof content === 'string'
+      ? content
+      : content.map((part) => (part.type === 'text' ? part.text : '[image]')).join('\n');
+  const compact = text.replace(/```(svg|mermaid)\b[\s\S]*?(?:```|$)/gi, (_, kind: string) => `[${kind.toLowerCase()} diagram]`);
+  return `${role === 'user' ? 'Learner' : 'Tutor'}: ${compact.slice(0, maxChars)}`;
+}
+
+async function extendSummary(
+  provider: LLMProvider,
+  previous: string | null,
+  transcript: string,
+  usage: SummaryUsage,
+  signal?: AbortSignal
+): Promise<string> {
+  const request = {
+    temperature: 0.2,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    signal,
+    messages: [
+      { role: 'system' as const, content: SUMMARY_PROMPT },
+      {
+        role: 'user' as const,
+        content: `${previous ? `Current notes:\n${previous}\n\n` : ''}New part of the conversation:\n${transcript}`,
+      },
+    ],
+  };
+
+  let text = '';
+  let reported: TokenUsage | null = null;
+  for await (const chunk of provider.streamChat(request)) {
+    if (chunk.type === 'text') text += chunk.text;
+    else reported = chunk.usage;
+  }
+
+  const promptTokens = reported?.promptTokens ?? estimateMessageTokens(request.messages);
+  const completionTokens = reported?.completionTokens ?? estimateTokens(text);
+  usage.promptTokens += promptTokens;
+  usage.completionTokens += completionTokens;
+  usage.totalTokens += promptTokens + completionTokens;
+  if (!reported) usage.estimated = true;
+  return text.trim();
+}
+
+// Fold turns into the summary in batches that fit comfortably in one request
+async function summarize(
+  provider: LLMProvider,
+  previous: string | null,
+  entries: ContextEntry[],
+  budget: number,
+  usage: SummaryUsage,
+  signal?: AbortSignal
+): Promise<string> {
+  const maxChars = Math.floor(budget / 2) * 4;
+  let summary = previous;
+  let batch: string[] = [];
+  let batchChars = 0;
+
+  for (const entry of entries) {
+    const line = transcriptLine(entry, maxChars);
+    if (batch.length && batchChars + line.length > maxChars) {
+      summary = await extendSummary(provider, summary, batch.join('\n\n'), usage, signal);
+      batch = [];
+      batchChars = 0;
+    }
+    batch.push(line);
+    batchChars += line.length;
+  }
+  if (batch.length) summary = await extendSummary(provider, summary, batch.join('\n\n'), usage, signal);
+  return summary ?? '';
+}
+
+function withSummary(
+  summary: ChatSummary | null,
+  recent: ContextEntry[],
+  summaryChanged = false,
+  usage: SummaryUsage | null = null
+): ContextWindow {
+  const messages: ChatMessage[] = recent.map((entry) => entry.message);
+  if (summary) {
+    messages.unshift({
+      role: 'system',
+      content: `Summary of the earlier part of this session (older turns are not shown):\n${summary.text}`,
+    });
+  }
+  return {
+    messages,
+    summary,
+    summaryChanged,
+    tokens: sumTokens(recent) + (summary ? summary.tokens : 0),
+    usage,
+  };
+}
+
+/**
+ * Fit a branch of the conversation into what is left of the budget after
+ * `fixedTokens` (system prompt, memories and the reply's max tokens).
+ */
+export async function fitContextWindow(options: {
+  provider: LLMProvider;
+  userEmail: string;
+  history: StoredMessage[];
+  summary?: ChatSummary;
+  fixedTokens: number;
+  budget?: number;
+  signal?: AbortSignal;
+}): Promise<ContextWindow> {
+  const { provider, userEmail, history, summary, fixedTokens, signal } = options;
+  const budget = options.budget ?? CONTEXT_BUDGET;
+  const entries = await toContextEntries(userEmail, history);
+  const available = budget - fixedTokens;
+
+  if (sumTokens(entries) <= available) return withSummary(null, entries);
+
+  const room = available - SUMMARY_MAX_TOKENS;
+
+  // The stored summary still works if it covers part of this branch and what follows fits
+  const covered = summary ? entries.findIndex((entry) => entry.id === summary.throughMessageId) : -1;
+  if (summary && covered >= 0 && sumTokens(entries.slice(covered + 1)) <= room) {
+    return withSummary(summary, entries.slice(covered + 1));
+  }
+
+  // Newest turns first; the latest message is always kept
+  const target = room * RECENT_SHARE_AFTER_SUMMARY;
+  let split = entries.length - 1;
+  let used = entries[split].tokens;
+  while (split > 0 && used + entries[split - 1].tokens <= target) {
+    split--;
+    used += entries[split].tokens;
+  }
+  // Only the latest message is left: there is nothing older to summarize
+  if (split === 0) return withSummary(null, entries);
+
+  // Extend the stored summary when it covers an earlier part of this branch
+  const reuse = summary && covered >= 0 && covered < split;
+  const pending = entries.slice(reuse ? covered + 1 : 0, split);
+
+  const usage: SummaryUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+  try {
+    const text = await summarize(provider, reuse ? summary.text : null, pending, budget, usage, signal);
+    const next: ChatSummary = {
+      text,
+      throughMessageId: entries[split - 1].id,
+      tokens: estimateTokens(text),
+      createdAt: new Date().toISOString(),
+    };
+    return withSummary(next, entries.slice(split), true, usage);
+  } catch (error) {
+    if (error instanceof GenerationAbortedError) throw error;
+    // Turns that could not be summarized are left out rather than overflowing the window
+    console.error('Failed to summarize older turns:', error);
+    return withSummary(reuse ? summary : null, entries.slice(split), false, usage.totalTokens ? usage : null);
+  }
+}
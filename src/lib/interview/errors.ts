@@ -0,0 +1,20 @@
+/**
+ * Thrown when an interview action does not fit the interview's state: starting
+ * a second one, taking a hint past the limit, answering after time is up.
+ */
+export class InterviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InterviewError';
+  }
+}
+
+/**
+ * Thrown when the model's debrief cannot be read as rubric scores.
+ */
+export class InterviewGradingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InterviewGradingError';
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @dev Debrief grading for mock interviews
+ * The model scores the transcript against the rubric and returns JSON; the
+ * overall score (with the hint penalty) and the verdict are computed here, so
+ * the model cannot talk its way around the penalty.
+ */
+
+import type { InterviewDebrief, StoredChat } from '@/lib/chat-schema';
+import { activePath } from '@/lib/chat-tree';
+import { estimateMessageTokens, estimateTokens, type ChatMessage, type LLMProvider, type TokenUsage } from '@/lib/llm';
+import { findInterviewProblem } from './problems';
+import { HINT_PENALTY, INTERVIEW_RUBRIC, MAX_CRITERION_SCORE, overallScore, verdictFor } from './rubric';
+import { InterviewGradingError } from './errors';
+
+const GRADING_MAX_TOKENS = 1500;
+
+// The end of an interview says the most about the solution, so long transcripts are clipped from the front
+const MAX_TRANSCRIPT_CHARS = 48_000;
+const MAX_MESSAGE_CHARS = 6_000;
+
+const GRADING_PROMPT = `You are a senior engineer writing the debrief of a coding interview you just ran.
+Score the candidate on each rubric criterion from 1 (weak) to ${MAX_CRITERION_SCORE} (strong):
+${INTERVIEW_RUBRIC.map((criterion) => `- ${criterion.id}: ${criterion.label}. ${criterion.description}.`).join('\n')}
+Judge only what the transcript shows; a criterion the candidate never got to scores 1.
+Reply with JSON only, no prose and no code fence, in this shape:
+{"scores": {${INTERVIEW_RUBRIC.map((criterion) => `"${criterion.id}": {"score": 1, "notes": "..."}`).join(', ')}},
+ "summary": "two or three sentences", "strengths": ["..."], "improvements": ["..."]}
+Notes are one or two sentences that cite what the candidate said or wrote. Give up to three strengths and three improvements.`;
+
+export interface GradedInterview {
+  debrief: InterviewDebrief;
+  usage: TokenUsage & { estimated: boolean };
+}
+
+function transcript(chat: StoredChat): string {
+  const lines = activePath(chat).map((message) => {
+    const text = message.content.length > MAX_MESSAGE_CHARS ? `${message.content.slice(0, MAX_MESSAGE_CHARS)} […]` : message.content;
+    return `${message.role === 'user' ? 'Candidate' : 'Interviewer'}: ${text}`;
+  });
+  const full = lines.join('\n\n');
+  return full.length > MAX_TRANSCRIPT_CHARS ? `[…]\n${full.slice(-MAX_TRANSCRIPT_CHARS)}` : full;
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string' && !!item.trim()).slice(0, 3);
+}
+
+// Read the model's JSON, tolerating a code fence or text around it
+function parseDebrief(text: string, hintsUsed: number): InterviewDebrief {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) throw new InterviewGradingError('The debrief is not JSON');
+
+  let raw: { scores?: Record<string, { score?: unknown; notes?: unknown }>; summary?: unknown; strengths?: unknown; improvements?: unknown };
+  try {
+    raw = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new InterviewGradingError('The debrief is not valid JSON');
+  }
+
+  const scores = {} as InterviewDebrief['scores'];
+  for (const criterion of INTERVIEW_RUBRIC) {
+    const entry = raw.scores?.[criterion.id];
+    const score = Number(entry?.score);
+    if (!Number.isInteger(score) || score < 1 || score > MAX_CRITERION_SCORE) {
+      throw new InterviewGradingError(`The debrief has no valid score for ${criterion.id}`);
+    }
+    scores[criterion.id] = { score, notes: typeof entry?.notes === 'string' ? entry.notes.trim() : '' };
+  }
+
+  const overall = overallScore(Object.values(scores).map((entry) => entry.score), hintsUsed);
+  return {
+    scores,
+    hintPenalty: hintsUsed * HINT_PENALTY,
+    overall,
+    verdict: verdictFor(overall),
+    summary: typeof raw.summary === 'string' ? raw.summary.trim() : '',
+    strengths: stringList(raw.strengths),
+    improvements: stringList(raw.improvements),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Grade the chat's interview from the branch being shown. A debrief that
+ * cannot be parsed is requested once more before giving up.
+ */
+export async function gradeInterview(provider: LLMProvider, chat: StoredChat, signal?: AbortSignal): Promise<GradedInterview> {
+  const interview = chat.interview;
+  if (!interview) throw new InterviewGradingError('The chat has no interview to grade');
+
+  const problem = findInterviewProblem(interview.problem.id);
+  const messages: ChatMessage[] = [
+    { role: 'system', content: GRADING_PROMPT },
+    {
+      role: 'user',
+      content: [
+        `Problem: ${interview.problem.title} (${interview.problem.difficulty}). ${problem?.statement ?? ''}`,
+        `Duration: ${interview.durationMinutes} minutes. Hints taken: ${interview.hintsUsed}.`,
+        `Transcript:\n${transcript(chat)}`,
+      ].join('\n\n'),
+    },
+  ];
+
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+  for (let attempt = 1; ; attempt++) {
+    let text = '';
+    let reported: TokenUsage | null = null;
+    for await (const chunk of provider.streamChat({ messages, temperature: 0.2, maxTokens: GRADING_MAX_TOKENS, signal })) {
+      if (chunk.type === 'text') text += chunk.text;
+      else reported = chunk.usage;
+    }
+
+    const promptTokens = reported?.promptTokens ?? estimateMessageTokens(messages);
+    const completionTokens = reported?.completionTokens ?? estimateTokens(text);
+    usage.promptTokens += promptTokens;
+    usage.completionTokens += completionTokens;
+    usage.totalTokens += promptTokens + completionTokens;
+    if (!reported) usage.estimated = true;
+
+    try {
+      return { debrief: parseDebrief(text, interview.hintsUsed), usage };
+    } catch (error) {
+      if (!(error instanceof InterviewGradingError) || attempt >= 2) throw error;
+    }
+  }
+}
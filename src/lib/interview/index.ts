@@ -0,0 +1,127 @@
+/**
+ * @dev Mock interview sessions
+ * An interview lives on its chat (`chat.interview`): the problem picked from
+ * the bank, the countdown and the hints taken. The server enforces the rules
+ * (time limit, hint limit, one interview per chat); the model only sees them
+ * as a prompt section. Grading happens once, when the interview ends
+ * (see grading.ts), and the debrief is stored on the chat.
+ */
+
+import type { InterviewSession, StoredChat } from '@/lib/chat-schema';
+import { findInterviewProblem, pickInterviewProblem } from './problems';
+import {
+  DEFAULT_INTERVIEW_MINUTES,
+  HINT_PENALTY,
+  INTERVIEW_DURATIONS,
+  MAX_INTERVIEW_HINTS,
+  type InterviewDifficulty,
+  type InterviewTopic,
+} from './rubric';
+import { InterviewError } from './errors';
+
+export * from './rubric';
+export { findInterviewProblem, INTERVIEW_PROBLEMS, pickInterviewProblem, type InterviewProblem } from './problems';
+export { gradeInterview } from './grading';
+export { interviewReport } from './report';
+export { InterviewError, InterviewGradingError } from './errors';
+
+// Messages sent just after the countdown ends (typing the last line) are still accepted
+const TIME_UP_GRACE_MS = 60_000;
+
+// A grading request that died with its instance leaves the interview in `grading`; it may be retried after this
+const STALE_GRADING_MS = 3 * 60_000;
+
+export interface InterviewOptions {
+  difficulty?: InterviewDifficulty;
+  topic?: InterviewTopic;
+  durationMinutes?: number;
+}
+
+/** Start an interview in the chat, switching it to mock interview mode */
+export function startInterview(chat: StoredChat, options: InterviewOptions = {}, random = Math.random): InterviewSession {
+  if (chat.interview) {
+    throw new InterviewError(
+      chat.interview.status === 'completed'
+        ? 'This chat already has a finished interview; start a new chat for another one'
+        : 'An interview is already running in this chat'
+    );
+  }
+
+  const durationMinutes = options.durationMinutes ?? DEFAULT_INTERVIEW_MINUTES;
+  if (!INTERVIEW_DURATIONS.includes(durationMinutes)) {
+    throw new InterviewError(`Interviews last ${INTERVIEW_DURATIONS.join(', ')} minutes`);
+  }
+
+  const problem = pickInterviewProblem(options, random);
+  const startedAt = new Date();
+  const interview: InterviewSession = {
+    status: 'active',
+    problem: { id: problem.id, title: problem.title, difficulty: problem.difficulty, topic: problem.topic },
+    durationMinutes,
+    startedAt: startedAt.toISOString(),
+    endsAt: new Date(startedAt.getTime() + durationMinutes * 60_000).toISOString(),
+    hintsUsed: 0,
+  };
+  chat.interview = interview;
+  chat.mode = 'mock-interview';
+  if (!chat.messages.length) chat.title = `Mock interview: ${problem.title}`;
+  return interview;
+}
+
+/** Refuse new turns once the interview is over; chats without an interview are always open */
+export function assertInterviewOpen(chat: StoredChat, now = Date.now()) {
+  const interview = chat.interview;
+  if (!interview) return;
+  if (interview.status !== 'active') {
+    throw new InterviewError('This interview has ended; start a new chat to practise again');
+  }
+  if (now > new Date(interview.endsAt).getTime() + TIME_UP_GRACE_MS) {
+    throw new InterviewError('Time is up. End the interview to get your debrief');
+  }
+}
+
+/** Count a hint against the interview; throws once the candidate has used them all */
+export function takeInterviewHint(chat: StoredChat) {
+  const interview = chat.interview;
+  if (interview?.status !== 'active') throw new InterviewError('Hints are only available during an interview');
+  if (interview.hintsUsed >= MAX_INTERVIEW_HINTS) {
+    throw new InterviewError(`You have used all ${MAX_INTERVIEW_HINTS} hints`);
+  }
+  interview.hintsUsed += 1;
+}
+
+/** Mark the interview as being graded; a second end request while grading is refused */
+export function beginGrading(chat: StoredChat, now = Date.now()): InterviewSession {
+  const interview = chat.interview;
+  if (!interview) throw new InterviewError('No interview was started in this chat');
+  if (interview.status === 'completed') throw new InterviewError('This interview has already been graded');
+  if (interview.status === 'grading' && now - new Date(interview.endedAt ?? 0).getTime() < STALE_GRADING_MS) {
+    throw new InterviewError('This interview is already being graded');
+  }
+  interview.status = 'grading';
+  interview.endedAt = new Date(now).toISOString();
+  return interview;
+}
+
+/**
+ * Session details for the interviewer, appended to the system prompt while
+ * the interview runs. `hintRequested` marks a turn sent with the hint button.
+ */
+export function interviewContext(interview: InterviewSession, now = Date.now(), hintRequested = false): string {
+  const problem = findInterviewProblem(interview.problem.id);
+  const minutesLeft = Math.max(0, Math.ceil((new Date(interview.endsAt).getTime() - now) / 60_000));
+  const lines = [
+    '━━━ INTERVIEW SESSION ━━━',
+    `– Problem (${interview.problem.difficulty}): ${interview.problem.title}. ${problem?.statement ?? ''}`.trimEnd(),
+    '– Present exactly this problem, even if the candidate asked for another topic or difficulty. Do not name the technique it needs.',
+    `– Time: ${interview.durationMinutes}-minute interview, ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'} left.${
+      minutesLeft <= 5 ? ' Ask the candidate to wrap up and state the complexity of their solution.' : ''
+    }`,
+    `– Hints used: ${interview.hintsUsed} of ${MAX_INTERVIEW_HINTS}; each one costs ${HINT_PENALTY} points.`,
+    hintRequested
+      ? '– The candidate just took a hint with the hint button: give the smallest useful nudge towards their next step, without revealing the solution.'
+      : '– If the candidate asks for a hint in their own words, tell them to use the Hint button, which counts against their score, and give no hint.',
+    '– Do not give a debrief, scores or a hire signal in the chat; the scored debrief is written when the interview ends.',
+  ];
+  return lines.join('\n');
+}
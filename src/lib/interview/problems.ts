@@ -0,0 +1,155 @@
+/**
+ * @dev Problem bank for mock interviews
+ * Statements are given to the interviewer only; the candidate sees the problem
+ * as the interviewer presents it, without the topic.
+ */
+
+import type { InterviewDifficulty, InterviewTopic } from './rubric';
+
+export interface InterviewProblem {
+  id: string;
+  title: string;
+  difficulty: InterviewDifficulty;
+  topic: InterviewTopic;
+  statement: string;
+}
+
+export const INTERVIEW_PROBLEMS: InterviewProblem[] = [
+  {
+    id: 'two-sum',
+    title: 'Two Sum',
+    difficulty: 'easy',
+    topic: 'hashing',
+    statement:
+      'Given an array of integers nums and an integer target, return the indices of the two numbers that add up to target. Exactly one solution exists and the same element may not be used twice. Example: nums = [2, 7, 11, 15], target = 9 → [0, 1]. Constraints: 2 ≤ n ≤ 10^4.',
+  },
+  {
+    id: 'valid-parentheses',
+    title: 'Valid Parentheses',
+    difficulty: 'easy',
+    topic: 'stack',
+    statement:
+      'Given a string containing only ()[]{} characters, decide whether every bracket is closed by the same type of bracket in the correct order. Example: "([]{})" → true, "(]" → false. Constraints: 1 ≤ length ≤ 10^4.',
+  },
+  {
+    id: 'reverse-linked-list',
+    title: 'Reverse Linked List',
+    difficulty: 'easy',
+    topic: 'linked-list',
+    statement:
+      'Given the head of a singly linked list, reverse the list and return the new head. Example: 1→2→3→4 → 4→3→2→1. Follow-up: solve it both iteratively and recursively. Constraints: 0 ≤ n ≤ 5000.',
+  },
+  {
+    id: 'binary-search-rotated',
+    title: 'Search in Rotated Sorted Array',
+    difficulty: 'medium',
+    topic: 'binary-search',
+    statement:
+      'A sorted array of distinct integers was rotated at an unknown pivot. Given the array and a target, return the index of target or -1, in O(log n) time. Example: nums = [4, 5, 6, 7, 0, 1, 2], target = 0 → 4. Constraints: 1 ≤ n ≤ 5000.',
+  },
+  {
+    id: 'longest-substring',
+    title: 'Longest Substring Without Repeating Characters',
+    difficulty: 'medium',
+    topic: 'sliding-window',
+    statement:
+      'Given a string s, return the length of the longest substring without repeating characters. Example: "abcabcbb" → 3 ("abc"). Constraints: 0 ≤ length ≤ 5 · 10^4, ASCII characters.',
+  },
+  {
+    id: 'three-sum',
+    title: '3Sum',
+    difficulty: 'medium',
+    topic: 'two-pointers',
+    statement:
+      'Given an integer array nums, return all unique triplets [a, b, c] with a + b + c = 0. Example: [-1, 0, 1, 2, -1, -4] → [[-1, -1, 2], [-1, 0, 1]]. Constraints: 3 ≤ n ≤ 3000.',
+  },
+  {
+    id: 'number-of-islands',
+    title: 'Number of Islands',
+    difficulty: 'medium',
+    topic: 'graphs',
+    statement:
+      "Given an m × n grid of '1' (land) and '0' (water), count the islands: groups of land cells connected horizontally or vertically. Example: [[1,1,0],[0,1,0],[0,0,1]] → 2. Constraints: 1 ≤ m, n ≤ 300.",
+  },
+  {
+    id: 'kth-largest',
+    title: 'Kth Largest Element in an Array',
+    difficulty: 'medium',
+    topic: 'heap',
+    statement:
+      'Given an integer array nums and an integer k, return the kth largest element (in sorted order, not the kth distinct). Example: [3, 2, 1, 5, 6, 4], k = 2 → 5. Can it be done better than sorting? Constraints: 1 ≤ k ≤ n ≤ 10^5.',
+  },
+  {
+    id: 'lowest-common-ancestor',
+    title: 'Lowest Common Ancestor of a Binary Tree',
+    difficulty: 'medium',
+    topic: 'trees',
+    statement:
+      'Given a binary tree and two of its nodes p and q, return their lowest common ancestor: the deepest node that has both as descendants (a node is a descendant of itself). Constraints: 2 ≤ nodes ≤ 10^5, values are unique.',
+  },
+  {
+    id: 'coin-change',
+    title: 'Coin Change',
+    difficulty: 'medium',
+    topic: 'dynamic-programming',
+    statement:
+      'Given coin denominations and an amount, return the fewest coins that make up the amount, or -1 if impossible. Coins may be reused. Example: coins = [1, 2, 5], amount = 11 → 3 (5 + 5 + 1). Constraints: 1 ≤ coins ≤ 12, 0 ≤ amount ≤ 10^4.',
+  },
+  {
+    id: 'course-schedule',
+    title: 'Course Schedule',
+    difficulty: 'medium',
+    topic: 'graphs',
+    statement:
+      'There are n courses and a list of prerequisite pairs [a, b] meaning b must be taken before a. Decide whether all courses can be finished. Example: n = 2, [[1, 0], [0, 1]] → false. Constraints: 1 ≤ n ≤ 2000, pairs ≤ 5000.',
+  },
+  {
+    id: 'merge-k-lists',
+    title: 'Merge k Sorted Lists',
+    difficulty: 'hard',
+    topic: 'heap',
+    statement:
+      'Given k sorted linked lists, merge them into one sorted list and return its head. Example: [1→4→5, 1→3→4, 2→6] → 1→1→2→3→4→4→5→6. Constraints: 0 ≤ k ≤ 10^4, total nodes ≤ 10^4.',
+  },
+  {
+    id: 'trapping-rain-water',
+    title: 'Trapping Rain Water',
+    difficulty: 'hard',
+    topic: 'two-pointers',
+    statement:
+      'Given n non-negative integers representing an elevation map with bars of width 1, compute how much water it traps after raining. Example: [0,1,0,2,1,0,1,3,2,1,2,1] → 6. Constraints: 1 ≤ n ≤ 2 · 10^4.',
+  },
+  {
+    id: 'edit-distance',
+    title: 'Edit Distance',
+    difficulty: 'hard',
+    topic: 'dynamic-programming',
+    statement:
+      'Given two strings word1 and word2, return the minimum number of insertions, deletions and substitutions that turn word1 into word2. Example: "horse", "ros" → 3. Constraints: 0 ≤ lengths ≤ 500.',
+  },
+  {
+    id: 'sliding-window-maximum',
+    title: 'Sliding Window Maximum',
+    difficulty: 'hard',
+    topic: 'sliding-window',
+    statement:
+      'Given an array nums and a window size k, return the maximum of every window of k consecutive elements as the window slides from left to right. Example: [1,3,-1,-3,5,3,6,7], k = 3 → [3,3,5,5,6,7]. Aim for O(n). Constraints: 1 ≤ k ≤ n ≤ 10^5.',
+  },
+];
+
+export function findInterviewProblem(id: string): InterviewProblem | undefined {
+  return INTERVIEW_PROBLEMS.find((problem) => problem.id === id);
+}
+
+/** A random problem matching the filters, relaxing the topic and then the difficulty when none does */
+export function pickInterviewProblem(
+  filters: { difficulty?: InterviewDifficulty; topic?: InterviewTopic },
+  random = Math.random
+): InterviewProblem {
+  const candidates = [
+    INTERVIEW_PROBLEMS.filter((p) => (!filters.difficulty || p.difficulty === filters.difficulty) && (!filters.topic || p.topic === filters.topic)),
+    INTERVIEW_PROBLEMS.filter((p) => !filters.difficulty || p.difficulty === filters.difficulty),
+    INTERVIEW_PROBLEMS,
+  ].find((list) => list.length > 0)!;
+  return candidates[Math.floor(random() * candidates.length)];
+}
@@ -0,0 +1,52 @@
+/**
+ * @dev Markdown export of a finished mock interview
+ * The scored debrief followed by the transcript of the branch being shown,
+ * for keeping outside the app or sharing with a mentor.
+ */
+
+import type { StoredChat } from '@/lib/chat-schema';
+import { activePath } from '@/lib/chat-tree';
+import { INTERVIEW_RUBRIC, MAX_CRITERION_SCORE, VERDICT_LABELS } from './rubric';
+import { InterviewError } from './errors';
+
+// Table cells cannot hold line breaks or unescaped pipes
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+export function interviewReport(chat: StoredChat): string {
+  const interview = chat.interview;
+  const debrief = interview?.debrief;
+  if (!interview || !debrief) throw new InterviewError('This interview has not been graded yet');
+
+  const lines = [
+    `# Mock interview: ${interview.problem.title}`,
+    '',
+    `- Difficulty: ${interview.problem.difficulty}`,
+    `- Topic: ${interview.problem.topic}`,
+    `- Started: ${interview.startedAt}`,
+    `- Duration: ${interview.durationMinutes} minutes${interview.endedAt ? `, ended ${interview.endedAt}` : ''}`,
+    `- Hints used: ${interview.hintsUsed} (−${debrief.hintPenalty} points)`,
+    `- Overall: ${debrief.overall} / ${MAX_CRITERION_SCORE}, ${VERDICT_LABELS[debrief.verdict]}`,
+    '',
+    '## Rubric',
+    '',
+    '| Criterion | Score | Notes |',
+    '| --- | --- | --- |',
+    ...INTERVIEW_RUBRIC.map(
+      (criterion) =>
+        `| ${criterion.label} | ${debrief.scores[criterion.id].score} / ${MAX_CRITERION_SCORE} | ${cell(debrief.scores[criterion.id].notes)} |`
+    ),
+    '',
+  ];
+
+  if (debrief.summary) lines.push('## Summary', '', debrief.summary, '');
+  if (debrief.strengths.length) lines.push('## Strengths', '', ...debrief.strengths.map((item) => `- ${item}`), '');
+  if (debrief.improvements.length) lines.push('## To improve', '', ...debrief.improvements.map((item) => `- ${item}`), '');
+
+  lines.push('## Transcript', '');
+  for (const message of activePath(chat)) {
+    lines.push(`**${message.role === 'user' ? 'Candidate' : 'Interviewer'}:**`, '', message.content, '');
+  }
+  return lines.join('\n');
+}
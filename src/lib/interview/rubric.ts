@@ -0,0 +1,86 @@
+/**
+ * @dev Mock interview rubric and limits
+ * Shared by the server (grading) and ChatInterface (debrief card), so it holds
+ * no server-only imports.
+ */
+
+export type InterviewDifficulty = 'easy' | 'medium' | 'hard';
+
+export type InterviewCriterion = 'communication' | 'correctness' | 'complexity' | 'codeQuality';
+
+export type InterviewVerdict = 'strong-hire' | 'hire' | 'lean-hire' | 'lean-no-hire' | 'no-hire';
+
+export const INTERVIEW_DIFFICULTIES: InterviewDifficulty[] = ['easy', 'medium', 'hard'];
+
+/** Topics of the problem bank (problems.ts), offered when starting an interview */
+export const INTERVIEW_TOPICS = [
+  'binary-search',
+  'dynamic-programming',
+  'graphs',
+  'hashing',
+  'heap',
+  'linked-list',
+  'sliding-window',
+  'stack',
+  'trees',
+  'two-pointers',
+] as const;
+
+export type InterviewTopic = (typeof INTERVIEW_TOPICS)[number];
+
+export const INTERVIEW_DURATIONS = [30, 45, 60];
+
+export const DEFAULT_INTERVIEW_MINUTES = 45;
+
+/** Hints a candidate may take; each one lowers the overall score */
+export const MAX_INTERVIEW_HINTS = 3;
+
+export const HINT_PENALTY = 0.25;
+
+/** Scores run from 1 (weak) to MAX_CRITERION_SCORE (strong) */
+export const MAX_CRITERION_SCORE = 4;
+
+export const INTERVIEW_RUBRIC: { id: InterviewCriterion; label: string; description: string }[] = [
+  {
+    id: 'communication',
+    label: 'Communication',
+    description: 'Clarified the problem, explained the approach before coding, and thought out loud',
+  },
+  {
+    id: 'correctness',
+    label: 'Correctness',
+    description: 'Reached a working solution and handled the edge cases',
+  },
+  {
+    id: 'complexity',
+    label: 'Complexity analysis',
+    description: 'Stated and justified time and space complexity, and considered better alternatives',
+  },
+  {
+    id: 'codeQuality',
+    label: 'Code quality',
+    description: 'Readable, idiomatic code with clear names and structure',
+  },
+];
+
+export const VERDICT_LABELS: Record<InterviewVerdict, string> = {
+  'strong-hire': 'Strong hire',
+  hire: 'Hire',
+  'lean-hire': 'Lean hire',
+  'lean-no-hire': 'Lean no hire',
+  'no-hire': 'No hire',
+};
+
+/** Average rubric score minus the hint penalty, floored at 1 */
+export function overallScore(scores: number[], hintsUsed: number): number {
+  const average = scores.reduce((total, score) => total + score, 0) / scores.length;
+  return Math.max(1, Math.round((average - hintsUsed * HINT_PENALTY) * 100) / 100);
+}
+
+export function verdictFor(overall: number): InterviewVerdict {
+  if (overall >= 3.5) return 'strong-hire';
+  if (overall >= 3) return 'hire';
+  if (overall >= 2.5) return 'lean-hire';
+  if (overall >= 2) return 'lean-no-hire';
+  return 'no-hire';
+}
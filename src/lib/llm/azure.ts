@@ -0,0 +1,30 @@
+import OpenAI from 'openai';
+import { requireEnv } from './errors';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import type { LLMProvider } from './types';
+
+const USAGE_API_VERSION = '2024-09-01';
+
+/** Azure OpenAI deployment; the deployment name doubles as the model */
+export function createAzureProvider(): LLMProvider {
+  const endpoint = requireEnv('AZURE_OPENAI_ENDPOINT');
+  const apiKey = requireEnv('AZURE_OPENAI_KEY');
+  const deployment = requireEnv('AZURE_OPENAI_DEPLOYMENT');
+  const apiVersion = requireEnv('AZURE_OPENAI_API_VERSION');
+
+  const client = new OpenAI({
+    apiKey,
+    baseURL: `${endpoint}/openai/deployments/${deployment}`,
+    defaultQuery: { 'api-version': apiVersion },
+    defaultHeaders: { 'api-key': apiKey },
+  });
+
+  return createOpenAICompatibleProvider({
+    name: 'azure',
+    client,
+    model: deployment,
+    supportsImages: true,
+    // Azure only accepts stream_options from API version 2024-09-01 on
+    includeUsage: apiVersion >= USAGE_API_VERSION,
+  });
+}
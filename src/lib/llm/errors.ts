@@ -0,0 +1,26 @@
+/**
+ * Thrown when the selected provider is missing required configuration.
+ */
+export class LLMConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigurationError';
+  }
+}
+
+/**
+ * Thrown by providers when a completion is cancelled through its AbortSignal.
+ */
+export class GenerationAbortedError extends Error {
+  constructor() {
+    super('Generation was stopped');
+    this.name = 'GenerationAbortedError';
+  }
+}
+
+// Read a required environment variable for a provider
+export function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new LLMConfigurationError(`${name} is not set`);
+  return value;
+}
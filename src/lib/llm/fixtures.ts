@@ -0,0 +1,178 @@
+/**
+ * @dev Record/replay of real completions for offline tests
+ * `record` wraps a real provider and writes every streamed completion to
+ * `{LLM_FIXTURES_DIR}/{key}.json`; `replay` serves those files back without any
+ * network access. The key is a hash of the request (messages, temperature,
+ * max tokens), so the same conversation always maps to the same fixture.
+ * System prompt sections that differ between runs of the same flow (see
+ * VOLATILE_SECTIONS) are reduced to their headings before hashing.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GenerationAbortedError } from './errors';
+import type { ChatMessage, CompletionChunk, CompletionRequest, LLMProvider } from './types';
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/llm';
+
+export interface CompletionFixture {
+  key: string;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  request: CompletionRequest;
+  /** Chunks exactly as the upstream streamed them */
+  chunks: CompletionChunk[];
+  /** Set when the upstream stream failed after `chunks` */
+  error?: string;
+}
+
+/**
+ * Thrown in replay mode when no fixture exists for a request.
+ */
+export class MissingFixtureError extends Error {
+  constructor(public readonly key: string, fixturesDir: string) {
+    super(`No LLM fixture ${key}.json in ${fixturesDir}; record it with LLM_PROVIDER=record`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+/**
+ * Thrown in replay mode when a fixture file exists but is not a usable fixture.
+ */
+export class InvalidFixtureError extends Error {
+  constructor(public readonly file: string, reason: string) {
+    super(`Invalid LLM fixture ${file}: ${reason}`);
+    this.name = 'InvalidFixtureError';
+  }
+}
+
+// Filled from outside the conversation (memories from mem0, the interview clock), so they are not part of the key
+const VOLATILE_SECTIONS = ['LEARNER CONTEXT', 'INTERVIEW SESSION'];
+
+const SECTION_HEADING = /^━━━ (.+) ━━━$/;
+
+// Keep each volatile section's heading, so a flow with one still keys apart from a flow without
+function withoutVolatileSections(text: string): string {
+  let skipping = false;
+  return text
+    .split('\n')
+    .filter((line) => {
+      const heading = SECTION_HEADING.exec(line.trim());
+      if (heading) skipping = VOLATILE_SECTIONS.some((name) => heading[1].startsWith(name));
+      return !!heading || !skipping;
+    })
+    .join('\n');
+}
+
+function stableMessage(message: ChatMessage): ChatMessage {
+  if (message.role !== 'system' || typeof message.content !== 'string') return message;
+  return { ...message, content: withoutVolatileSections(message.content) };
+}
+
+export function fixtureKey(request: CompletionRequest): string {
+  const canonical = JSON.stringify({
+    messages: request.messages.map(stableMessage),
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+  });
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 32);
+}
+
+function fixturesDir(dir?: string): string {
+  return path.resolve(dir || process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+}
+
+export function createRecordingProvider(upstream: LLMProvider, options: { dir?: string } = {}): LLMProvider {
+  const dir = fixturesDir(options.dir);
+
+  async function save(fixture: CompletionFixture) {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, `${fixture.key}.json`), JSON.stringify(fixture, null, 2));
+  }
+
+  return {
+    name: `record:${upstream.name}`,
+    model: upstream.model,
+    supportsImages: upstream.supportsImages,
+
+    async *streamChat(request) {
+      const fixture: CompletionFixture = {
+        key: fixtureKey(request),
+        provider: upstream.name,
+        model: upstream.model,
+        recordedAt: new Date().toISOString(),
+        request: { messages: request.messages, temperature: request.temperature, maxTokens: request.maxTokens },
+        chunks: [],
+      };
+
+      try {
+        for await (const chunk of upstream.streamChat(request)) {
+          fixture.chunks.push(chunk);
+          yield chunk;
+        }
+      } catch (error) {
+        // A stopped generation says nothing about the upstream, so it is not recorded
+        if (error instanceof GenerationAbortedError) throw error;
+        // Failures are recorded too, so error handling can be replayed
+        fixture.error = error instanceof Error ? error.message : String(error);
+        await save(fixture);
+        throw error;
+      }
+      await save(fixture);
+    },
+  };
+}
+
+function isCompletionChunk(chunk: unknown): chunk is CompletionChunk {
+  if (!chunk || typeof chunk !== 'object') return false;
+  const { type, text, usage } = chunk as Record<string, unknown>;
+  if (type === 'text') return typeof text === 'string';
+  if (type === 'usage') return !!usage && typeof usage === 'object';
+  return false;
+}
+
+// Only a missing file means "not recorded"; anything else in the file is reported as broken
+async function readFixture(dir: string, key: string): Promise<CompletionFixture> {
+  const file = path.join(dir, `${key}.json`);
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new MissingFixtureError(key, dir);
+    throw error;
+  }
+
+  let fixture: CompletionFixture;
+  try {
+    fixture = JSON.parse(raw);
+  } catch (error) {
+    throw new InvalidFixtureError(file, error instanceof Error ? error.message : String(error));
+  }
+  if (!fixture || !Array.isArray(fixture.chunks)) {
+    throw new InvalidFixtureError(file, 'missing chunks array');
+  }
+  const bad = fixture.chunks.findIndex((chunk) => !isCompletionChunk(chunk));
+  if (bad !== -1) throw new InvalidFixtureError(file, `chunk ${bad} is not a {type:'text'|'usage'} chunk`);
+  return fixture;
+}
+
+export function createReplayProvider(options: { dir?: string } = {}): LLMProvider {
+  const dir = fixturesDir(options.dir);
+
+  return {
+    name: 'replay',
+    model: 'replay',
+    supportsImages: true,
+
+    async *streamChat(request) {
+      const fixture = await readFixture(dir, fixtureKey(request));
+      for (const chunk of fixture.chunks) {
+        if (request.signal?.aborted) throw new GenerationAbortedError();
+        yield chunk;
+      }
+      if (fixture.error) throw new Error(fixture.error);
+    },
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * @dev LLM entry point used by the AI route
+ * Selects a provider from LLM_PROVIDER (azure | openai | ollama | mock | record |
+ * replay); every provider streams the same way and accepts the same OpenAI-shaped
+ * messages. `record` wraps the provider named by LLM_RECORD_PROVIDER (default azure).
+ */
+
+import { createAzureProvider } from './azure';
+import { createOpenAIProvider } from './openai';
+import { createOllamaProvider } from './ollama';
+import { createMockProvider } from './mock';
+import { createRecordingProvider, createReplayProvider } from './fixtures';
+import { LLMConfigurationError } from './errors';
+import type { LLMProvider, LLMProviderName } from './types';
+
+export type {
+  ChatMessage,
+  CompletionChunk,
+  CompletionRequest,
+  ContentPart,
+  LLMProvider,
+  LLMProviderName,
+  TokenUsage,
+} from './types';
+export { estimateMessageTokens, estimateTokens } from './tokens';
+export { GenerationAbortedError, LLMConfigurationError } from './errors';
+export { InvalidFixtureError, MissingFixtureError } from './fixtures';
+
+// Singleton provider with HMR-safe global caching
+let provider: LLMProvider | undefined;
+
+export function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'azure':
+      return createAzureProvider();
+    case 'openai':
+      return createOpenAIProvider();
+    case 'ollama':
+      return createOllamaProvider();
+    case 'mock':
+      return createMockProvider();
+    case 'record': {
+      const upstream = process.env.LLM_RECORD_PROVIDER || 'azure';
+      if (['record', 'replay'].includes(upstream)) {
+        throw new LLMConfigurationError(`LLM_RECORD_PROVIDER cannot be "${upstream}"`);
+      }
+      return createRecordingProvider(createProvider(upstream));
+    }
+    case 'replay':
+      return createReplayProvider();
+    default:
+      throw new LLMConfigurationError(
+        `Unknown LLM_PROVIDER "${name}" (expected azure, openai, ollama, mock, record or replay)`
+      );
+  }
+}
+
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const globalWithLLM = global as typeof globalThis & {
+    _llmProvider?: LLMProvider;
+  };
+
+  if (process.env.NODE_ENV === 'development' && globalWithLLM._llmProvider) {
+    provider = globalWithLLM._llmProvider;
+    return provider;
+  }
+
+  const name = (process.env.LLM_PROVIDER || 'azure') as LLMProviderName;
+  provider = createProvider(name);
+
+  if (process.env.NODE_ENV === 'development') {
+    globalWithLLM._llmProvider = provider;
+  }
+
+  return provider;
+}
+
+/** Replace the active provider (tests and scripts) */
+export function setLLMProvider(next: LLMProvider): void {
+  provider = next;
+}
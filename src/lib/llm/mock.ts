@@ -0,0 +1,142 @@
+/**
+ * @dev Deterministic mock provider for offline development and tests
+ * Streams canned responses in fixed-size chunks. The scenario is chosen by a
+ * `/mock:<name>` directive in the last user message, falling back to
+ * MOCK_LLM_SCENARIO and then to `echo`.
+ *
+ * Scenarios: echo, svg, mermaid, long, error (fails mid-stream), fail (fails
+ * before the first token). Custom scenarios can be loaded from a JSON file at
+ * MOCK_LLM_SCRIPT: `[{ "match": "regex", "response": "...", "error"?: "..." }]`,
+ * checked against the last user message before the built-in ones.
+ */
+
+import { readFileSync } from 'fs';
+import { GenerationAbortedError } from './errors';
+import { estimateMessageTokens, estimateTokens } from './tokens';
+import type { ChatMessage, CompletionRequest, LLMProvider } from './types';
+
+export interface MockScenario {
+  response: string;
+  /** Thrown after the response has been streamed (or immediately if it is empty) */
+  error?: string;
+}
+
+interface ScriptedScenario extends MockScenario {
+  match: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 8;
+
+const SVG_RESPONSE = `Let's look at the array before we search it.
+
+\`\`\`svg
+<svg xmlns="http://www.w3.org/2000/svg" width="320" height="80" viewBox="0 0 320 80">
+  <g font-family="monospace" font-size="14" text-anchor="middle">
+    <rect x="10" y="30" width="50" height="40" fill="#eef2ff" stroke="#4f46e5"/><text x="35" y="55">1</text>
+    <rect x="70" y="30" width="50" height="40" fill="#eef2ff" stroke="#4f46e5"/><text x="95" y="55">3</text>
+    <rect x="130" y="30" width="50" height="40" fill="#bbf7d0" stroke="#16a34a"/><text x="155" y="55">5</text>
+    <rect x="190" y="30" width="50" height="40" fill="#eef2ff" stroke="#4f46e5"/><text x="215" y="55">7</text>
+    <rect x="250" y="30" width="50" height="40" fill="#eef2ff" stroke="#4f46e5"/><text x="275" y="55">9</text>
+    <text x="155" y="20" fill="#16a34a">mid</text>
+  </g>
+</svg>
+\`\`\`
+
+What would you compare the middle element against first?`;
+
+const MERMAID_RESPONSE = `Here is the overall flow of binary search:
+
+\`\`\`mermaid
+flowchart TD
+  A[lo <= hi?] -->|no| B[not found]
+  A -->|yes| C[mid = (lo + hi) / 2]
+  C --> D{arr[mid] vs target}
+  D -->|equal| E[found]
+  D -->|less| F[lo = mid + 1] --> A
+  D -->|greater| G[hi = mid - 1] --> A
+\`\`\`
+
+Which branch shrinks the search space from the left?`;
+
+const BUILT_IN_SCENARIOS: Record<string, (lastUserMessage: string) => MockScenario> = {
+  echo: (text) => ({ response: `**Mock tutor:** you said "${text}". What have you tried so far?` }),
+  svg: () => ({ response: SVG_RESPONSE }),
+  mermaid: () => ({ response: MERMAID_RESPONSE }),
+  long: () => ({
+    response: Array.from({ length: 40 }, (_, i) => `Step ${i + 1}: keep narrowing the window.`).join('\n'),
+  }),
+  error: () => ({ response: 'Let me draw the recursion tree for you...\n\n```svg\n<svg xmlns="http://www.w3.org/2000/svg"', error: 'Mock provider: stream interrupted' }),
+  fail: () => ({ response: '', error: 'Mock provider: upstream unavailable' }),
+};
+
+function messageText(message: ChatMessage | undefined): string {
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map((part) => (part.type === 'text' ? part.text : '')).join('\n');
+}
+
+function loadScript(scriptPath: string | undefined): ScriptedScenario[] {
+  if (!scriptPath) return [];
+  const script = JSON.parse(readFileSync(scriptPath, 'utf8'));
+  if (!Array.isArray(script)) throw new Error(`MOCK_LLM_SCRIPT ${scriptPath} must contain a JSON array`);
+  return script;
+}
+
+/** Pick the scenario for a request; exported so tests can assert on the expected output */
+export function resolveMockScenario(
+  request: CompletionRequest,
+  options: { script?: ScriptedScenario[]; defaultScenario?: string } = {}
+): MockScenario {
+  const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+  const text = messageText(lastUser);
+
+  for (const entry of options.script ?? []) {
+    if (new RegExp(entry.match, 'i').test(text)) return entry;
+  }
+
+  const directive = /\/mock:([a-z-]+)/.exec(text)?.[1];
+  const name = directive && BUILT_IN_SCENARIOS[directive] ? directive : options.defaultScenario ?? 'echo';
+  const scenario = BUILT_IN_SCENARIOS[name];
+  if (!scenario) throw new Error(`Unknown mock scenario "${name}"`);
+  return scenario(text.replace(/\/mock:[a-z-]+/g, '').trim());
+}
+
+export function createMockProvider(
+  options: {
+    script?: ScriptedScenario[];
+    defaultScenario?: string;
+    chunkSize?: number;
+    delayMs?: number;
+  } = {}
+): LLMProvider {
+  const script = options.script ?? loadScript(process.env.MOCK_LLM_SCRIPT);
+  const defaultScenario = options.defaultScenario ?? process.env.MOCK_LLM_SCENARIO;
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const delayMs = options.delayMs ?? (Number(process.env.MOCK_LLM_DELAY_MS) || 0);
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    supportsImages: true,
+
+    async *streamChat(request) {
+      const scenario = resolveMockScenario(request, { script, defaultScenario });
+
+      for (let i = 0; i < scenario.response.length; i += chunkSize) {
+        if (delayMs) await new Promise((resolve) => setTimeout(resolve, delayMs));
+        if (request.signal?.aborted) throw new GenerationAbortedError();
+        yield { type: 'text' as const, text: scenario.response.slice(i, i + chunkSize) };
+      }
+
+      if (scenario.error) throw new Error(scenario.error);
+
+      // Report usage like a real provider, using the local estimate
+      const promptTokens = estimateMessageTokens(request.messages);
+      const completionTokens = estimateTokens(scenario.response);
+      yield {
+        type: 'usage' as const,
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      };
+    },
+  };
+}
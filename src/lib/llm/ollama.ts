@@ -0,0 +1,27 @@
+import OpenAI from 'openai';
+import { requireEnv } from './errors';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import type { LLMProvider } from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Local Ollama or llama.cpp server through its OpenAI-compatible `/v1` API.
+ * Most local models are text-only; set OLLAMA_SUPPORTS_IMAGES=true for vision
+ * models such as llava.
+ */
+export function createOllamaProvider(): LLMProvider {
+  const client = new OpenAI({
+    // Local servers ignore the key, but the SDK requires one
+    apiKey: process.env.OLLAMA_API_KEY || 'ollama',
+    baseURL: process.env.OLLAMA_BASE_URL || DEFAULT_BASE_URL,
+  });
+
+  return createOpenAICompatibleProvider({
+    name: 'ollama',
+    client,
+    model: requireEnv('OLLAMA_MODEL'),
+    supportsImages: process.env.OLLAMA_SUPPORTS_IMAGES === 'true',
+    includeUsage: true,
+  });
+}
@@ -0,0 +1,70 @@
+import OpenAI from 'openai';
+import { GenerationAbortedError } from './errors';
+import type { ChatMessage, CompletionRequest, ContentPart, LLMProvider } from './types';
+
+// Text-only models reject image parts, so replace them with a note the model can acknowledge
+function withoutImages(message: ChatMessage): ChatMessage {
+  if (typeof message.content === 'string') return message;
+  const text = message.content
+    .map((part: ContentPart) => (part.type === 'text' ? part.text : '[image omitted: this model cannot view images]'))
+    .join('\n');
+  return { ...message, content: text };
+}
+
+/**
+ * Provider for any server that speaks the OpenAI chat completions API
+ * (OpenAI, Azure OpenAI, Ollama, llama.cpp, vLLM, ...).
+ */
+export function createOpenAICompatibleProvider(options: {
+  name: string;
+  client: OpenAI;
+  model: string;
+  supportsImages: boolean;
+  /** Ask for a final usage chunk (`stream_options.include_usage`); not every server accepts it */
+  includeUsage?: boolean;
+}): LLMProvider {
+  const { name, client, model, supportsImages, includeUsage = false } = options;
+
+  return {
+    name,
+    model,
+    supportsImages,
+
+    async *streamChat(request: CompletionRequest) {
+      const messages = supportsImages ? request.messages : request.messages.map(withoutImages);
+
+      try {
+        const completion = await client.chat.completions.create(
+          {
+            model,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: true,
+            stream_options: includeUsage ? { include_usage: true } : undefined,
+            messages: messages as OpenAI.Chat.ChatCompletionMessageParam[],
+          },
+          { signal: request.signal }
+        );
+
+        for await (const chunk of completion) {
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield { type: 'text' as const, text: delta };
+          if (chunk.usage) {
+            yield {
+              type: 'usage' as const,
+              usage: {
+                promptTokens: chunk.usage.prompt_tokens,
+                completionTokens: chunk.usage.completion_tokens,
+                totalTokens: chunk.usage.total_tokens,
+              },
+            };
+          }
+        }
+      } catch (error) {
+        // The SDK reports aborts as APIUserAbortError; normalize across providers
+        if (request.signal?.aborted) throw new GenerationAbortedError();
+        throw error;
+      }
+    },
+  };
+}
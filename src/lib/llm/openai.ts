@@ -0,0 +1,22 @@
+import OpenAI from 'openai';
+import { requireEnv } from './errors';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import type { LLMProvider } from './types';
+
+const DEFAULT_MODEL = 'gpt-4o';
+
+/** OpenAI or any hosted OpenAI-compatible endpoint (set OPENAI_BASE_URL for the latter) */
+export function createOpenAIProvider(): LLMProvider {
+  const client = new OpenAI({
+    apiKey: requireEnv('OPENAI_API_KEY'),
+    baseURL: process.env.OPENAI_BASE_URL || undefined,
+  });
+
+  return createOpenAICompatibleProvider({
+    name: 'openai',
+    client,
+    model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
+    supportsImages: process.env.OPENAI_SUPPORTS_IMAGES !== 'false',
+    includeUsage: true,
+  });
+}
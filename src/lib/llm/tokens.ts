@@ -0,0 +1,33 @@
+/**
+ * @dev Local token estimation
+ * Used when a provider does not report usage. Roughly 4 characters per token
+ * for English and code, which is close enough for budgets and accounting.
+ */
+
+import type { ChatMessage } from './types';
+
+const CHARS_PER_TOKEN = 4;
+// Per-message framing overhead (role, separators) in the chat format
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// A typical image at detail "auto"; high-detail tiles cost more, low-detail less
+const IMAGE_TOKENS = 765;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => {
+    if (typeof message.content === 'string') {
+      return total + MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+    }
+    return (
+      total +
+      MESSAGE_OVERHEAD_TOKENS +
+      message.content.reduce(
+        (sum, part) => sum + (part.type === 'text' ? estimateTokens(part.text) : IMAGE_TOKENS),
+        0
+      )
+    );
+  }, 0);
+}
@@ -0,0 +1,54 @@
+/**
+ * @dev LLM provider contract shared by every backend
+ * Messages use the OpenAI chat shape, which every supported server accepts.
+ */
+
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImagePart {
+  type: 'image_url';
+  image_url: { url: string; detail?: 'auto' | 'low' | 'high' };
+}
+
+export type ContentPart = TextPart | ImagePart;
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/** One streamed piece of a completion: a text delta, or the final usage report */
+export type CompletionChunk =
+  | { type: 'text'; text: string }
+  | { type: 'usage'; usage: TokenUsage };
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Cancels the upstream request; the stream then throws GenerationAbortedError */
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  /** Provider name, used in logs */
+  readonly name: string;
+  /** Model or deployment the provider sends requests to */
+  readonly model: string;
+  /** Whether the model accepts image parts; images are dropped otherwise */
+  readonly supportsImages: boolean;
+
+  /** Stream a chat completion; providers that report usage end with a `usage` chunk */
+  streamChat(request: CompletionRequest): AsyncIterable<CompletionChunk>;
+}
+
+export type LLMProviderName = 'azure' | 'openai' | 'ollama' | 'mock' | 'record' | 'replay';
@@ -17,11 +17,12 @@ const MEM0_API_KEY = process.env.MEM0_API_KEY;
 /**
  * Store a memory entry in Mem0 with structured metadata.
  * No-ops gracefully in dev when MEM0_API_KEY is not set.
+ * Resolves to true only if the memory was actually stored.
  */
-export async function mem0UpsertMemory(payload: MemoryUpsert) {
-  if (!MEM0_API_KEY) return;
+export async function mem0UpsertMemory(payload: MemoryUpsert): Promise<boolean> {
+  if (!MEM0_API_KEY) return false;
   try {
-    await fetch(`${MEM0_BASE_URL}/v1/memory`, {
+    const res = await fetch(`${MEM0_BASE_URL}/v1/memory`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -30,8 +31,10 @@ export async function mem0UpsertMemory(payload: MemoryUpsert) {
       body: JSON.stringify(payload),
       cache: 'no-store',
     });
+    return res.ok;
   } catch (error) {
     console.error('Mem0 upsert error:', error);
+    return false;
   }
 }
 
@@ -57,6 +60,28 @@ export async function mem0QueryMemories(userId: string) {
   }
 }
 
+/**
+ * Delete every memory associated with a user.
+ * Returns true when Mem0 confirmed the deletion (or is not configured).
+ */
+export async function mem0DeleteMemories(userId: string): Promise<boolean> {
+  if (!MEM0_API_KEY) return true;
+  try {
+    const res = await fetch(
+      `${MEM0_BASE_URL}/v1/memory?userId=${encodeURIComponent(userId)}`,
+      {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${MEM0_API_KEY}` },
+        cache: 'no-store',
+      }
+    );
+    return res.ok;
+  } catch (error) {
+    console.error('Mem0 delete error:', error);
+    return false;
+  }
+}
+
 /* ------------------------------------------------------------------ */
 /*  Structured memory helpers                                          */
 /* ------------------------------------------------------------------ */
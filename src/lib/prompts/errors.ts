@@ -0,0 +1,9 @@
+/**
+ * Thrown for an unknown prompt module or version, or an invalid module text.
+ */
+export class PromptRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptRegistryError';
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @dev System prompt composition for /api/ai
+ * The tutor's system prompt is assembled per request from versioned modules
+ * (see registry.ts): the modules a mode uses, in order, then a section built
+ * from the learner's settings. The returned version string (e.g.
+ * `persona@1+visuals@2+...`) is stored with every reply for auditing.
+ */
+
+import { DEFAULT_TUTOR_MODE, type TutorMode } from '@/lib/tutor-modes';
+import { getActivePromptModule } from './registry';
+
+export type {
+  ActivePromptModule,
+  PromptModuleRecord,
+  PromptModuleVersion,
+} from './registry';
+export {
+  activatePromptVersion,
+  getPromptModule,
+  listPromptModules,
+  publishPromptModule,
+  MAX_PROMPT_MODULE_CHARS,
+} from './registry';
+export { BUNDLED_PROMPT_MODULES } from './modules';
+export { PromptRegistryError } from './errors';
+
+/** Modules each mode is composed of, in prompt order */
+export const PROMPT_COMPOSITIONS: Record<TutorMode, string[]> = {
+  socratic: ['persona', 'visuals', 'socratic-method', 'stage-protocol', 'hints', 'memory', 'format', 'rules'],
+  'quick-explain': ['quick-explain', 'memory', 'format'],
+  'code-review': ['code-review', 'memory', 'format'],
+  'mock-interview': ['mock-interview', 'memory', 'format'],
+};
+
+/** Learner settings that shape the prompt */
+export interface PromptSettings {
+  preferredLanguages?: string[];
+}
+
+export interface ComposedPrompt {
+  text: string;
+  /** The module versions the text was built from */
+  version: string;
+}
+
+function settingsSection(settings: PromptSettings): string | null {
+  const languages = settings.preferredLanguages?.filter((language) => language.trim());
+  if (!languages?.length) return null;
+  return `━━━ LEARNER SETTINGS ━━━
+  – Preferred programming languages: ${languages.join(', ')}. Write code in ${languages[0]} unless the learner asks for another language.`;
+}
+
+export async function composeSystemPrompt(
+  mode: TutorMode = DEFAULT_TUTOR_MODE,
+  settings: PromptSettings = {}
+): Promise<ComposedPrompt> {
+  const modules = await Promise.all(PROMPT_COMPOSITIONS[mode].map(getActivePromptModule));
+  const sections = modules.map((module) => module.text);
+  const learner = settingsSection(settings);
+  if (learner) sections.push(learner);
+
+  return {
+    text: sections.join('\n\n'),
+    version: modules.map((module) => `${module.id}@${module.version}`).join('+'),
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * @dev Versioned prompt modules in storage
+ * One record per module at `prompts/{moduleId}.json` holding every published
+ * version and the active one. Versions are never rewritten, so rolling back is
+ * just activating an earlier version. Modules without a record use their
+ * bundled text as version 1.
+ */
+
+import { downloadJson, PreconditionFailedError, updateJson, uploadJson } from '@/lib/storage';
+import { BUNDLED_PROMPT_MODULES } from './modules';
+import { PromptRegistryError } from './errors';
+
+export interface PromptModuleVersion {
+  version: number;
+  text: string;
+  createdAt: string;
+  /** Email of the admin who published it; absent for the bundled version */
+  createdBy?: string;
+  note?: string;
+}
+
+export interface PromptModuleRecord {
+  id: string;
+  description: string;
+  activeVersion: number;
+  versions: PromptModuleVersion[];
+}
+
+/** The text a module contributes to prompts right now */
+export interface ActivePromptModule {
+  id: string;
+  version: number;
+  text: string;
+}
+
+export const MAX_PROMPT_MODULE_CHARS = 20_000;
+
+// Published changes reach other instances within this time
+const CACHE_MS = 30_000;
+
+function promptModulePath(moduleId: string): string {
+  return `prompts/${moduleId}.json`;
+}
+
+function bundledRecord(moduleId: string): PromptModuleRecord {
+  const bundled = BUNDLED_PROMPT_MODULES.find((module) => module.id === moduleId);
+  if (!bundled) throw new PromptRegistryError(`Unknown prompt module "${moduleId}"`);
+  return {
+    id: bundled.id,
+    description: bundled.description,
+    activeVersion: 1,
+    versions: [{ version: 1, text: bundled.text, createdAt: new Date(0).toISOString() }],
+  };
+}
+
+export async function getPromptModule(moduleId: string): Promise<PromptModuleRecord> {
+  const fallback = bundledRecord(moduleId);
+  return (await downloadJson<PromptModuleRecord>(promptModulePath(moduleId))) ?? fallback;
+}
+
+export function listPromptModules(): Promise<PromptModuleRecord[]> {
+  return Promise.all(BUNDLED_PROMPT_MODULES.map((module) => getPromptModule(module.id)));
+}
+
+/* ------------------------------------------------------------------ */
+/*  Active versions (cached)                                           */
+/* ------------------------------------------------------------------ */
+
+interface CachedModule {
+  active: ActivePromptModule;
+  loadedAt: number;
+}
+
+// HMR-safe in development, like the other process-wide caches
+function moduleCache(): Map<string, CachedModule> {
+  const globalWithPrompts = global as typeof globalThis & {
+    _promptModules?: Map<string, CachedModule>;
+  };
+  if (!globalWithPrompts._promptModules) globalWithPrompts._promptModules = new Map();
+  return globalWithPrompts._promptModules;
+}
+
+function activeOf(record: PromptModuleRecord): ActivePromptModule {
+  const active = record.versions.find((v) => v.version === record.activeVersion);
+  if (!active) throw new PromptRegistryError(`Prompt module "${record.id}" has no version ${record.activeVersion}`);
+  return { id: record.id, version: active.version, text: active.text };
+}
+
+export async function getActivePromptModule(moduleId: string): Promise<ActivePromptModule> {
+  const cached = moduleCache().get(moduleId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_MS) return cached.active;
+
+  const active = activeOf(await getPromptModule(moduleId));
+  moduleCache().set(moduleId, { active, loadedAt: Date.now() });
+  return active;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Publishing                                                         */
+/* ------------------------------------------------------------------ */
+
+// Create the module's record from its bundled version the first time it changes
+async function updatePromptModule(
+  moduleId: string,
+  mutate: (record: PromptModuleRecord) => PromptModuleRecord
+): Promise<PromptModuleRecord> {
+  const path = promptModulePath(moduleId);
+  for (let attempt = 1; ; attempt++) {
+    const updated = await updateJson<PromptModuleRecord>(path, mutate);
+    if (updated) return updated.data;
+    try {
+      const created = mutate(bundledRecord(moduleId));
+      await uploadJson(path, created, { ifNoneMatch: '*' });
+      return created;
+    } catch (err) {
+      if (!(err instanceof PreconditionFailedError) || attempt >= 3) throw err;
+    }
+  }
+}
+
+/** Add a new version of a module and make it the active one */
+export async function publishPromptModule(
+  moduleId: string,
+  text: string,
+  options: { createdBy: string; note?: string }
+): Promise<PromptModuleRecord> {
+  if (!text.trim()) throw new PromptRegistryError('Prompt text is empty');
+  if (text.length > MAX_PROMPT_MODULE_CHARS) {
+    throw new PromptRegistryError(`Prompt text is longer than ${MAX_PROMPT_MODULE_CHARS} characters`);
+  }
+
+  const record = await updatePromptModule(moduleId, (current) => {
+    const version = Math.max(...current.versions.map((v) => v.version)) + 1;
+    const published: PromptModuleVersion = {
+      version,
+      text,
+      createdAt: new Date().toISOString(),
+      createdBy: options.createdBy,
+    };
+    if (options.note) published.note = options.note;
+    return { ...current, activeVersion: version, versions: [...current.versions, published] };
+  });
+  moduleCache().delete(moduleId);
+  return record;
+}
+
+/** Make an existing version the active one (rollback or roll forward) */
+export async function activatePromptVersion(moduleId: string, version: number): Promise<PromptModuleRecord> {
+  const record = await updatePromptModule(moduleId, (current) => {
+    if (!current.versions.some((v) => v.version === version)) {
+      throw new PromptRegistryError(`Prompt module "${moduleId}" has no version ${version}`);
+    }
+    return { ...current, activeVersion: version };
+  });
+  moduleCache().delete(moduleId);
+  return record;
+}
@@ -0,0 +1,18 @@
+/**
+ * Thrown when a user is over a limit; `resetAt` is when they may try again.
+ */
+export class RateLimitError extends Error {
+  constructor(
+    public readonly limit: 'requests' | 'tokens',
+    public readonly resetAt: Date,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+
+  /** Whole seconds until the limit resets, for the Retry-After header */
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000));
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * @dev Per-user rate limiting and token quotas for /api/ai
+ * Two limits per user: requests per minute (RATE_LIMIT_REQUESTS_PER_MINUTE)
+ * and model tokens per UTC day (RATE_LIMIT_DAILY_TOKENS); 0 disables either.
+ * Counters live in a store selected by RATE_LIMIT_STORE (memory | storage).
+ */
+
+import { createMemoryCounterStore } from './memory';
+import { createStorageCounterStore } from './storage';
+import { RateLimitError } from './errors';
+import type { CounterStore, CounterStoreName } from './types';
+
+export type { Counter, CounterStore, CounterStoreName } from './types';
+export { RateLimitError } from './errors';
+
+export const REQUESTS_PER_MINUTE = readLimit('RATE_LIMIT_REQUESTS_PER_MINUTE', 20);
+export const DAILY_TOKEN_QUOTA = readLimit('RATE_LIMIT_DAILY_TOKENS', 200_000);
+
+function readLimit(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : fallback;
+}
+
+// Singleton store with HMR-safe global caching (keeps in-memory counts across reloads)
+let store: CounterStore | undefined;
+
+export function createCounterStore(name: string): CounterStore {
+  switch (name) {
+    case 'memory':
+      return createMemoryCounterStore();
+    case 'storage':
+      return createStorageCounterStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}" (expected memory or storage)`);
+  }
+}
+
+export function getCounterStore(): CounterStore {
+  if (store) return store;
+
+  const globalWithCounters = global as typeof globalThis & {
+    _counterStore?: CounterStore;
+  };
+
+  if (process.env.NODE_ENV === 'development' && globalWithCounters._counterStore) {
+    store = globalWithCounters._counterStore;
+    return store;
+  }
+
+  const name = (process.env.RATE_LIMIT_STORE || 'memory') as CounterStoreName;
+  store = createCounterStore(name);
+
+  if (process.env.NODE_ENV === 'development') {
+    globalWithCounters._counterStore = store;
+  }
+
+  return store;
+}
+
+/** Replace the active store (tests and scripts) */
+export function setCounterStore(next: CounterStore): void {
+  store = next;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Limits                                                             */
+/* ------------------------------------------------------------------ */
+
+function requestsKey(emailKey: string): string {
+  return `${emailKey}/requests`;
+}
+
+function tokensKey(emailKey: string): string {
+  return `${emailKey}/tokens`;
+}
+
+function nextUtcMidnight(now: number): number {
+  const next = new Date(now);
+  next.setUTCHours(24, 0, 0, 0);
+  return next.getTime();
+}
+
+/**
+ * Count a request against the user's limits before any model call.
+ * Throws RateLimitError when the daily tokens are used up or the user is
+ * over their requests for this minute; rejected requests are not counted.
+ */
+export async function enforceRateLimits(emailKey: string): Promise<void> {
+  const counters = getCounterStore();
+
+  if (DAILY_TOKEN_QUOTA > 0) {
+    const tokens = await counters.get(tokensKey(emailKey));
+    if (tokens && tokens.count >= DAILY_TOKEN_QUOTA) {
+      throw new RateLimitError('tokens', new Date(tokens.resetAt), "You've used today's tutoring allowance");
+    }
+  }
+
+  if (REQUESTS_PER_MINUTE > 0) {
+    const requests = await counters.increment(requestsKey(emailKey), 1, Date.now() + 60_000);
+    if (requests.count > REQUESTS_PER_MINUTE) {
+      await counters.increment(requestsKey(emailKey), -1, requests.resetAt);
+      throw new RateLimitError('requests', new Date(requests.resetAt), "You're sending messages faster than the tutor can keep up");
+    }
+  }
+}
+
+/** Add the tokens of a finished (or stopped) completion to the user's daily total */
+export async function recordTokenUsage(emailKey: string, tokens: number): Promise<void> {
+  if (DAILY_TOKEN_QUOTA <= 0 || tokens <= 0) return;
+  await getCounterStore().increment(tokensKey(emailKey), tokens, nextUtcMidnight(Date.now()));
+}
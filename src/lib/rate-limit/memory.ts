@@ -0,0 +1,31 @@
+import type { Counter, CounterStore } from './types';
+
+/**
+ * In-process counters for local runs and single-instance deployments.
+ * Counts are lost on restart and are not shared between instances.
+ */
+export function createMemoryCounterStore(counters = new Map<string, Counter>()): CounterStore {
+  return {
+    name: 'memory',
+
+    async increment(key, amount, resetAt) {
+      const current = counters.get(key);
+      const next =
+        current && current.resetAt > Date.now()
+          ? { count: current.count + amount, resetAt: current.resetAt }
+          : { count: amount, resetAt };
+      counters.set(key, next);
+      return { ...next };
+    },
+
+    async get(key) {
+      const current = counters.get(key);
+      if (!current) return null;
+      if (current.resetAt <= Date.now()) {
+        counters.delete(key);
+        return null;
+      }
+      return { ...current };
+    },
+  };
+}
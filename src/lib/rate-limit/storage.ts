@@ -0,0 +1,45 @@
+import { downloadJson, PreconditionFailedError, updateJson, uploadJson } from '@/lib/storage';
+import type { Counter, CounterStore } from './types';
+
+const CREATE_ATTEMPTS = 3;
+
+function counterPath(key: string): string {
+  return `rate-limits/${key}.json`;
+}
+
+/**
+ * Counters kept in the configured storage backend, so limits survive restarts
+ * and hold across instances. Each counter is one small document updated with
+ * conditional writes.
+ */
+export function createStorageCounterStore(): CounterStore {
+  return {
+    name: 'storage',
+
+    async increment(key, amount, resetAt) {
+      const path = counterPath(key);
+      for (let attempt = 1; ; attempt++) {
+        const updated = await updateJson<Counter>(path, (current) =>
+          current.resetAt > Date.now()
+            ? { count: current.count + amount, resetAt: current.resetAt }
+            : { count: amount, resetAt }
+        );
+        if (updated) return updated.data;
+
+        // First use of this counter; a concurrent creator makes us retry the update
+        const created: Counter = { count: amount, resetAt };
+        try {
+          await uploadJson(path, created, { ifNoneMatch: '*' });
+          return created;
+        } catch (err) {
+          if (!(err instanceof PreconditionFailedError) || attempt >= CREATE_ATTEMPTS) throw err;
+        }
+      }
+    },
+
+    async get(key) {
+      const current = await downloadJson<Counter>(counterPath(key));
+      return current && current.resetAt > Date.now() ? current : null;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * @dev Counter store contract shared by every rate-limit backend
+ * Counters are fixed windows: a counter starts at the first increment and is
+ * reset by the first increment after `resetAt`.
+ */
+
+export interface Counter {
+  count: number;
+  /** Epoch milliseconds at which the window ends */
+  resetAt: number;
+}
+
+export interface CounterStore {
+  /** Human-readable store name, used in logs */
+  readonly name: string;
+
+  /**
+   * Add `amount` to a counter and resolve to its new value. If the counter is
+   * missing or its window has ended, a new window ending at `resetAt` starts.
+   */
+  increment(key: string, amount: number, resetAt: number): Promise<Counter>;
+
+  /** The counter's current window, or null if it is missing or has ended */
+  get(key: string): Promise<Counter | null>;
+}
+
+export type CounterStoreName = 'memory' | 'storage';
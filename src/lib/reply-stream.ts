@@ -0,0 +1,274 @@
+/**
+ * @dev Progressive persistence and resumable delivery of assistant replies
+ * /api/ai stores the reply while it is being generated (status `streaming`),
+ * so closing the tab mid-answer no longer loses it, and generation carries on
+ * without a reader. A reconnecting client asks /api/ai/resume for the text
+ * after the offset it already has: replies generated by this process are
+ * followed live, replies generated elsewhere by polling storage.
+ *
+ * Stopping is explicit (stopReply) rather than tied to the connection, since
+ * a dropped connection is expected to resume.
+ */
+
+import { encodeAiEvent, formatStage, type AiStreamEvent } from '@/lib/ai-events';
+import { upsertChatIndexEntry } from '@/lib/chat-index';
+import { getChat, updateChat } from '@/lib/chats';
+import { generateId } from '@/lib/storage';
+import type { StoredChat, StoredMessage } from '@/lib/chat-schema';
+import { addVariant, writeVariant } from '@/lib/chat-variants';
+import { appendMessage, findMessage } from '@/lib/chat-tree';
+
+/** How often a streaming reply is written to storage */
+const SAVE_INTERVAL_MS = 1000;
+
+/** A `streaming` reply with no write for this long was interrupted (crash, redeploy) */
+export const STALE_REPLY_MS = 30_000;
+
+const INTERRUPTED_MESSAGE = 'The reply was interrupted before it finished';
+
+type Listener = (event: AiStreamEvent) => void;
+
+interface LiveReply {
+  /** Owner of the chat; chat ids are only unique per user */
+  emailKey: string;
+  chatId: string;
+  content: string;
+  listeners: Set<Listener>;
+  abort: AbortController;
+}
+
+// Replies being generated by this process, by message id (HMR-safe in development)
+function liveReplies(): Map<string, LiveReply> {
+  const globalWithReplies = global as typeof globalThis & {
+    _liveReplies?: Map<string, LiveReply>;
+  };
+  if (!globalWithReplies._liveReplies) globalWithReplies._liveReplies = new Map();
+  return globalWithReplies._liveReplies;
+}
+
+/** Whether this process is generating the message right now */
+export function isReplyLive(messageId: string): boolean {
+  return liveReplies().has(messageId);
+}
+
+/**
+ * Present `streaming` replies that nobody is writing any more as `incomplete`.
+ * Only the returned copy changes; storage is fixed up by the next write.
+ */
+export function settleStaleReplies(chat: StoredChat, now = Date.now()): StoredChat {
+  const stale = now - new Date(chat.updatedAt).getTime() > STALE_REPLY_MS;
+  if (!stale || !chat.messages.some((m) => m.status === 'streaming' && !liveReplies().has(m.id))) return chat;
+
+  return {
+    ...chat,
+    messages: chat.messages.map((m) =>
+      m.status === 'streaming' && !liveReplies().has(m.id) ? { ...m, status: 'incomplete' } : m
+    ),
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Writing                                                            */
+/* ------------------------------------------------------------------ */
+
+export interface ReplyWriter {
+  messageId: string;
+  /** Record an event of the reply (tokens and stages are persisted) and pass it to resumed readers */
+  publish(event: AiStreamEvent): void;
+  /** Final write; the reply stops being live once it resolves */
+  finish(status: 'complete' | 'incomplete' | 'stopped'): Promise<StoredChat | null>;
+}
+
+/**
+ * Add the user's turn (when given, via `addUserTurn`, which returns the id to
+ * answer) and an empty `streaming` assistant message in one write (or, with
+ * `regenerate`, a new variant to that existing reply) and return a writer
+ * that saves it at most once per SAVE_INTERVAL_MS until finished.
+ * `abort` is triggered when the reply is stopped; `promptVersion` is recorded
+ * on the reply and the chat.
+ */
+export async function startReply(
+  emailKey: string,
+  chatId: string,
+  abort: AbortController,
+  options: { addUserTurn?: (chat: StoredChat) => string; regenerate?: string; promptVersion?: string } = {}
+): Promise<ReplyWriter> {
+  const messageId = options.regenerate ?? generateId();
+  let variantIndex: number | undefined;
+
+  const created = await updateChat(emailKey, chatId, (chat) => {
+    const createdAt = new Date().toISOString();
+    if (options.regenerate) {
+      const target = findMessage(chat, options.regenerate);
+      if (!target) return null;
+      variantIndex = addVariant(target, createdAt, options.promptVersion);
+    } else {
+      const parentId = options.addUserTurn ? options.addUserTurn(chat) : chat.activeLeafId;
+      const shown = chat.activeLeafId;
+      const reply: StoredMessage = { id: messageId, parentId, role: 'assistant', content: '', createdAt, status: 'streaming' };
+      if (options.promptVersion) reply.promptVersion = options.promptVersion;
+      appendMessage(chat, reply, parentId);
+      // Only move to the new reply if the learner is still on the branch it answers
+      if (shown !== parentId) chat.activeLeafId = shown;
+    }
+    if (options.promptVersion) chat.promptVersion = options.promptVersion;
+    chat.updatedAt = createdAt;
+    return chat;
+  });
+  if (!created) throw new Error('Chat disappeared before the reply started');
+  await upsertChatIndexEntry(emailKey, created.data);
+
+  const live: LiveReply = { emailKey, chatId, content: '', listeners: new Set(), abort };
+  liveReplies().set(messageId, live);
+
+  let stage: string | undefined;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Writes are chained so they land in order
+  let saving: Promise<unknown> = Promise.resolve();
+
+  function save(status: StoredMessage['status']): Promise<StoredChat | null> {
+    const content = live.content;
+    const next = saving.then(async () => {
+      const result = await updateChat(emailKey, chatId, (chat) => {
+        const target = findMessage(chat, messageId);
+        // The message was edited away or the chat purged while generating
+        if (!target) return null;
+        // Stopped through another instance: keep the marker and stop generating here
+        if (target.status === 'stopped' && status === 'streaming') {
+          abort.abort();
+          return null;
+        }
+        writeVariant(target, variantIndex, { content, stage, status });
+        chat.updatedAt = new Date().toISOString();
+        return chat;
+      });
+      return result?.data ?? null;
+    });
+    saving = next.catch((error) => console.error('Failed to save streaming reply:', error));
+    return next;
+  }
+
+  return {
+    messageId,
+
+    publish(event) {
+      if (event.type === 'token') live.content += event.text;
+      if (event.type === 'stage') stage = formatStage(event.stage, event.label);
+      live.listeners.forEach((listener) => listener(event));
+
+      if ((event.type === 'token' || event.type === 'stage') && !timer) {
+        timer = setTimeout(() => {
+          timer = null;
+          void save('streaming').catch(() => undefined);
+        }, SAVE_INTERVAL_MS);
+      }
+    },
+
+    async finish(status) {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      try {
+        const chat = await save(status === 'complete' ? undefined : status);
+        if (chat) await upsertChatIndexEntry(emailKey, chat);
+        return chat;
+      } finally {
+        liveReplies().delete(messageId);
+      }
+    },
+  };
+}
+
+/**
+ * Stop the chat's reply that is still generating. Replies generated by this
+ * process are aborted directly; otherwise the stored message is marked and
+ * the generating instance stops at its next save. Resolves to false when no
+ * reply was generating.
+ */
+export async function stopReply(emailKey: string, chatId: string): Promise<boolean> {
+  let stopped = false;
+  liveReplies().forEach((live) => {
+    if (live.emailKey !== emailKey || live.chatId !== chatId) return;
+    live.abort.abort();
+    stopped = true;
+  });
+  if (stopped) return true;
+
+  const result = await updateChat(emailKey, chatId, (chat) => {
+    const streaming = chat.messages.filter((m) => m.status === 'streaming');
+    if (streaming.length === 0) return null;
+    streaming.forEach((m) => (m.status = 'stopped'));
+    return chat;
+  });
+  return !!result;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Resuming                                                           */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Event stream for a reply, starting at character `offset` of its content.
+ * Ends with `done` once the reply is complete or known to be interrupted.
+ */
+export function resumeReply(emailKey: string, chatId: string, messageId: string, offset: number): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  let unsubscribe: (() => void) | null = null;
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: AiStreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeAiEvent(event)));
+      };
+      const end = (reason: 'complete' | 'error' | 'stopped') => {
+        if (reason === 'error') send({ type: 'error', message: INTERRUPTED_MESSAGE });
+        send({ type: 'done', reason });
+        if (!cancelled) controller.close();
+      };
+      let sent = offset;
+      const sendText = (content: string) => {
+        if (content.length > sent) send({ type: 'token', text: content.slice(sent) });
+        sent = Math.max(sent, content.length);
+      };
+
+      // Generated by this process: catch up, then follow the live events
+      const live = liveReplies().get(messageId);
+      if (live && live.emailKey === emailKey && live.chatId === chatId) {
+        sendText(live.content);
+        const listener: Listener = (event) => {
+          send(event);
+          if (event.type === 'done') {
+            live.listeners.delete(listener);
+            if (!cancelled) controller.close();
+          }
+        };
+        live.listeners.add(listener);
+        unsubscribe = () => live.listeners.delete(listener);
+        return;
+      }
+
+      // Otherwise follow storage until the reply stops streaming or goes stale
+      try {
+        while (!cancelled) {
+          const result = await getChat(emailKey, chatId);
+          const message = result?.data.messages.find((m) => m.id === messageId);
+          if (!result || !message) return end('error');
+
+          const { status } = settleStaleReplies(result.data).messages.find((m) => m.id === messageId)!;
+          sendText(message.content);
+          if (status !== 'streaming') return end(status === 'incomplete' ? 'error' : status ?? 'complete');
+
+          await new Promise((resolve) => setTimeout(resolve, SAVE_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error('Resume stream error:', error);
+        end('error');
+      }
+    },
+
+    cancel() {
+      cancelled = true;
+      unsubscribe?.();
+    },
+  });
+}
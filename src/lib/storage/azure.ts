@@ -0,0 +1,161 @@
+import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
+import { PreconditionFailedError } from './errors';
+import type { StorageDriver } from './types';
+
+const CONTAINER_NAME = 'algosensei';
+
+// Singleton ContainerClient with HMR-safe global caching
+let containerClient: ContainerClient | undefined;
+
+export function getContainerClient(): ContainerClient {
+  if (containerClient) return containerClient;
+
+  const globalWithAzure = global as typeof globalThis & {
+    _azureContainerClient?: ContainerClient;
+  };
+
+  if (
+    process.env.NODE_ENV === 'development' &&
+    globalWithAzure._azureContainerClient
+  ) {
+    containerClient = globalWithAzure._azureContainerClient;
+    return containerClient;
+  }
+
+  const connStr = process.env.AZURE_STORAGE_CONNECTION_STRING;
+  if (!connStr) {
+    throw new Error(
+      'Missing environment variable: "AZURE_STORAGE_CONNECTION_STRING"'
+    );
+  }
+
+  const blobServiceClient = BlobServiceClient.fromConnectionString(connStr);
+  containerClient = blobServiceClient.getContainerClient(CONTAINER_NAME);
+
+  if (process.env.NODE_ENV === 'development') {
+    globalWithAzure._azureContainerClient = containerClient;
+  }
+
+  return containerClient;
+}
+
+function statusCodeOf(err: unknown): number | undefined {
+  if (err && typeof err === 'object' && 'statusCode' in err) return (err as { statusCode: number }).statusCode;
+  return undefined;
+}
+
+function isNotFound(err: unknown): boolean {
+  return statusCodeOf(err) === 404;
+}
+
+// 412 for a failed If-Match, 409 (BlobAlreadyExists) for a failed If-None-Match: *
+function isPreconditionFailure(err: unknown): boolean {
+  const status = statusCodeOf(err);
+  return status === 412 || status === 409;
+}
+
+async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (data) => {
+      chunks.push(Buffer.isBuffer(data) ? data : Buffer.from(data));
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+async function streamToString(stream: NodeJS.ReadableStream): Promise<string> {
+  return (await streamToBuffer(stream)).toString();
+}
+
+export function createAzureDriver(): StorageDriver {
+  const driver: StorageDriver = {
+    name: 'azure',
+
+    async uploadJson(blobPath, data, options = {}) {
+      const blockBlobClient = getContainerClient().getBlockBlobClient(blobPath);
+      const content = JSON.stringify(data);
+      try {
+        const response = await blockBlobClient.upload(content, Buffer.byteLength(content), {
+          blobHTTPHeaders: { blobContentType: 'application/json' },
+          conditions: { ifMatch: options.ifMatch, ifNoneMatch: options.ifNoneMatch },
+        });
+        return response.etag ?? '';
+      } catch (err: unknown) {
+        if ((options.ifMatch || options.ifNoneMatch) && isPreconditionFailure(err)) {
+          throw new PreconditionFailedError(blobPath);
+        }
+        throw err;
+      }
+    },
+
+    async downloadJson<T = unknown>(blobPath: string): Promise<T | null> {
+      const versioned = await driver.downloadJsonWithEtag<T>(blobPath);
+      return versioned ? versioned.data : null;
+    },
+
+    async downloadJsonWithEtag<T = unknown>(blobPath: string) {
+      const blobClient = getContainerClient().getBlobClient(blobPath);
+      try {
+        const response = await blobClient.download();
+        if (!response.readableStreamBody) return null;
+        const text = await streamToString(response.readableStreamBody);
+        return { data: JSON.parse(text) as T, etag: response.etag ?? '' };
+      } catch (err: unknown) {
+        if (isNotFound(err)) return null;
+        throw err;
+      }
+    },
+
+    async uploadBlob(blobPath, data, contentType) {
+      const blockBlobClient = getContainerClient().getBlockBlobClient(blobPath);
+      const response = await blockBlobClient.uploadData(data, {
+        blobHTTPHeaders: { blobContentType: contentType },
+      });
+      return response.etag ?? '';
+    },
+
+    async downloadBlob(blobPath) {
+      const blobClient = getContainerClient().getBlobClient(blobPath);
+      try {
+        const response = await blobClient.download();
+        if (!response.readableStreamBody) return null;
+        return await streamToBuffer(response.readableStreamBody);
+      } catch (err: unknown) {
+        if (isNotFound(err)) return null;
+        throw err;
+      }
+    },
+
+    async deleteBlob(blobPath) {
+      const blobClient = getContainerClient().getBlobClient(blobPath);
+      try {
+        await blobClient.delete();
+        return true;
+      } catch (err: unknown) {
+        if (isNotFound(err)) return false;
+        throw err;
+      }
+    },
+
+    async listJsonBlobs<T = unknown>(prefix: string): Promise<T[]> {
+      const results: T[] = [];
+      for await (const blob of getContainerClient().listBlobsFlat({ prefix })) {
+        const data = await driver.downloadJson<T>(blob.name);
+        if (data !== null) results.push(data);
+      }
+      return results;
+    },
+
+    async listBlobs(prefix) {
+      const names: string[] = [];
+      for await (const blob of getContainerClient().listBlobsFlat({ prefix })) {
+        names.push(blob.name);
+      }
+      return names.sort();
+    },
+  };
+
+  return driver;
+}
@@ -0,0 +1,242 @@
+/**
+ * @dev Envelope encryption at rest
+ * Wraps any driver so per-user areas (chats, the chat index and attachments)
+ * are stored encrypted with that user's data key (see keyring.ts). Callers
+ * keep using plaintext; documents written before encryption was enabled are
+ * still readable and get encrypted on their next write or by the
+ * re-encryption job.
+ *
+ * An envelope hides every field, so drivers that lay documents out in tables
+ * (sqlite's chats and messages) store encrypted chats as single opaque rows,
+ * without the columns their indexes use.
+ *
+ * Stored formats:
+ *   JSON   { "$encrypted": "aes-256-gcm", "kid": "<data key id>", "data": "<base64 iv|tag|ciphertext>" }
+ *   bytes  "ASE1" | kid length (1 byte) | kid | iv | tag | ciphertext
+ */
+
+import { PreconditionFailedError } from './errors';
+import { isKeyDocumentPath, open, seal, type Keyring } from './keyring';
+import type { StorageDriver } from './types';
+
+const ALGORITHM = 'aes-256-gcm';
+const BINARY_MAGIC = Buffer.from('ASE1');
+
+interface EncryptedEnvelope {
+  $encrypted: typeof ALGORITHM;
+  kid: string;
+  data: string;
+}
+
+// Per-user areas that hold learner content; everything else is stored as-is
+const OWNER_PATTERNS = [
+  /^chats\/([^/]+)\//,
+  /^attachments\/([^/]+)\//,
+  /^chat-index\/([^/]+)\.json$/,
+];
+
+const ENCRYPTED_AREAS = ['chats/', 'attachments/', 'chat-index/'];
+
+/** Email key of the user whose data key protects this path, or null if it is stored in plaintext */
+export function ownerOfPath(blobPath: string): string | null {
+  for (const pattern of OWNER_PATTERNS) {
+    const match = pattern.exec(blobPath);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/** Prefixes holding a user's encrypted data (used by the re-encryption job) */
+export function encryptedPrefixesFor(emailKey: string): string[] {
+  return [`chats/${emailKey}/`, `chat-index/${emailKey}.json`, `attachments/${emailKey}/`];
+}
+
+function isEnvelope(value: unknown): value is EncryptedEnvelope {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    (value as EncryptedEnvelope).$encrypted === ALGORITHM &&
+    typeof (value as EncryptedEnvelope).kid === 'string'
+  );
+}
+
+function isEncryptedBinary(data: Buffer): boolean {
+  return data.length > BINARY_MAGIC.length && data.subarray(0, BINARY_MAGIC.length).equals(BINARY_MAGIC);
+}
+
+/** Data key id a stored document or byte blob was encrypted with, or null for plaintext */
+export function storedKeyId(stored: unknown): string | null {
+  if (Buffer.isBuffer(stored)) {
+    if (!isEncryptedBinary(stored)) return null;
+    const length = stored[BINARY_MAGIC.length];
+    return stored.subarray(BINARY_MAGIC.length + 1, BINARY_MAGIC.length + 1 + length).toString();
+  }
+  return isEnvelope(stored) ? stored.kid : null;
+}
+
+// Could a listing under this prefix include encrypted blobs from more than one user?
+function spansEncryptedAreas(prefix: string): boolean {
+  return ENCRYPTED_AREAS.some((area) => area.startsWith(prefix) || prefix.startsWith(area));
+}
+
+export function createEncryptedDriver(inner: StorageDriver, keyring: Keyring): StorageDriver {
+  async function encryptJson(owner: string, data: unknown): Promise<EncryptedEnvelope> {
+    const { id, key } = await keyring.getActiveKey(owner);
+    const sealed = seal(key, Buffer.from(JSON.stringify(data)));
+    return { $encrypted: ALGORITHM, kid: id, data: sealed.toString('base64') };
+  }
+
+  async function decryptJson<T>(owner: string, stored: unknown): Promise<T> {
+    if (!isEnvelope(stored)) return stored as T;
+    const { key } = await keyring.getKey(owner, stored.kid);
+    return JSON.parse(open(key, Buffer.from(stored.data, 'base64')).toString()) as T;
+  }
+
+  async function encryptBinary(owner: string, data: Buffer): Promise<Buffer> {
+    const { id, key } = await keyring.getActiveKey(owner);
+    const kid = Buffer.from(id);
+    return Buffer.concat([BINARY_MAGIC, Buffer.from([kid.length]), kid, seal(key, data)]);
+  }
+
+  async function decryptBinary(owner: string, stored: Buffer): Promise<Buffer> {
+    const kid = storedKeyId(stored);
+    if (!kid) return stored;
+    const { key } = await keyring.getKey(owner, kid);
+    return open(key, stored.subarray(BINARY_MAGIC.length + 1 + Buffer.byteLength(kid)));
+  }
+
+  const driver: StorageDriver = {
+    name: `${inner.name}+encrypted`,
+
+    async uploadJson(blobPath, data, options) {
+      const owner = ownerOfPath(blobPath);
+      return inner.uploadJson(blobPath, owner ? await encryptJson(owner, data) : data, options);
+    },
+
+    async downloadJson<T = unknown>(blobPath: string): Promise<T | null> {
+      const stored = await inner.downloadJson<unknown>(blobPath);
+      const owner = ownerOfPath(blobPath);
+      if (stored === null || !owner) return stored as T | null;
+      return decryptJson<T>(owner, stored);
+    },
+
+    // The ETag is that of the stored ciphertext, so conditional writes keep working
+    async downloadJsonWithEtag<T = unknown>(blobPath: string) {
+      const stored = await inner.downloadJsonWithEtag<unknown>(blobPath);
+      const owner = ownerOfPath(blobPath);
+      if (stored === null || !owner) return stored as { data: T; etag: string } | null;
+      return { data: await decryptJson<T>(owner, stored.data), etag: stored.etag };
+    },
+
+    async uploadBlob(blobPath, data, contentType) {
+      const owner = ownerOfPath(blobPath);
+      return inner.uploadBlob(blobPath, owner ? await encryptBinary(owner, data) : data, contentType);
+    },
+
+    async downloadBlob(blobPath) {
+      const stored = await inner.downloadBlob(blobPath);
+      const owner = ownerOfPath(blobPath);
+      if (stored === null || !owner) return stored;
+      return decryptBinary(owner, stored);
+    },
+
+    async deleteBlob(blobPath) {
+      if (isKeyDocumentPath(blobPath)) {
+        keyring.forget(blobPath.slice('keys/'.length).replace(/\.json$/, ''));
+      }
+      return inner.deleteBlob(blobPath);
+    },
+
+    async listJsonBlobs<T = unknown>(prefix: string): Promise<T[]> {
+      // A single user's area: keep the inner driver's (possibly indexed) listing
+      const owner = ownerOfPath(prefix);
+      if (owner) {
+        const stored = await inner.listJsonBlobs<unknown>(prefix);
+        return Promise.all(stored.map((doc) => decryptJson<T>(owner, doc)));
+      }
+      if (!spansEncryptedAreas(prefix)) return inner.listJsonBlobs<T>(prefix);
+
+      // Mixed owners: the key depends on each blob's path
+      const results: T[] = [];
+      for (const name of await inner.listBlobs(prefix)) {
+        const data = await driver.downloadJson<T>(name);
+        if (data !== null) results.push(data);
+      }
+      return results;
+    },
+
+    listBlobs(prefix) {
+      return inner.listBlobs(prefix);
+    },
+  };
+
+  return driver;
+}
+
+export interface ReencryptResult {
+  reencrypted: number;
+  current: number;
+  failed: number;
+}
+
+/**
+ * Rewrite every blob under the prefixes that is plaintext or encrypted with a
+ * data key other than its owner's active one. `inner` is the raw driver and
+ * `encrypted` the wrapper around it; JSON rewrites are conditional, so a
+ * concurrent app write (which already uses the active key) simply wins.
+ */
+export async function reencryptBlobs(
+  inner: StorageDriver,
+  encrypted: StorageDriver,
+  keyring: Keyring,
+  options: {
+    prefixes: string[];
+    isBinary?: (blobPath: string) => boolean;
+    onProgress?: (blobPath: string, status: 'reencrypted' | 'current' | 'failed', error?: unknown) => void;
+  }
+): Promise<ReencryptResult> {
+  const { prefixes, isBinary = () => false, onProgress } = options;
+  const result: ReencryptResult = { reencrypted: 0, current: 0, failed: 0 };
+
+  for (const prefix of prefixes) {
+    for (const blobPath of await inner.listBlobs(prefix)) {
+      const owner = ownerOfPath(blobPath);
+      if (!owner) continue;
+
+      try {
+        const { id: activeId } = await keyring.getActiveKey(owner);
+        let rewritten = false;
+
+        if (isBinary(blobPath)) {
+          const stored = await inner.downloadBlob(blobPath);
+          const data = stored !== null && storedKeyId(stored) !== activeId ? await encrypted.downloadBlob(blobPath) : null;
+          if (data) {
+            await encrypted.uploadBlob(blobPath, data, 'application/octet-stream');
+            rewritten = true;
+          }
+        } else {
+          const stored = await inner.downloadJsonWithEtag<unknown>(blobPath);
+          if (stored !== null && storedKeyId(stored.data) !== activeId) {
+            const current = await encrypted.downloadJsonWithEtag<unknown>(blobPath);
+            try {
+              if (current) {
+                await encrypted.uploadJson(blobPath, current.data, { ifMatch: stored.etag });
+                rewritten = true;
+              }
+            } catch (err) {
+              if (!(err instanceof PreconditionFailedError)) throw err;
+            }
+          }
+        }
+
+        result[rewritten ? 'reencrypted' : 'current']++;
+        onProgress?.(blobPath, rewritten ? 'reencrypted' : 'current');
+      } catch (error) {
+        result.failed++;
+        onProgress?.(blobPath, 'failed', error);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,10 @@
+/**
+ * Thrown when a conditional write fails because the blob changed
+ * (If-Match mismatch) or already exists (If-None-Match: *).
+ */
+export class PreconditionFailedError extends Error {
+  constructor(public readonly blobPath: string) {
+    super(`Precondition failed for blob "${blobPath}"`);
+    this.name = 'PreconditionFailedError';
+  }
+}
@@ -0,0 +1,42 @@
+import { createHash } from 'crypto';
+import { PreconditionFailedError } from './errors';
+import type { WriteOptions } from './types';
+
+// Content-derived ETag for drivers without native versioning
+export function computeEtag(content: string | Buffer): string {
+  return `"${createHash('sha1').update(content).digest('hex').slice(0, 20)}"`;
+}
+
+// Throw if the current ETag (null when the blob is missing) violates the write options
+export function assertWriteConditions(
+  blobPath: string,
+  currentEtag: string | null,
+  options: WriteOptions = {}
+): void {
+  if (options.ifNoneMatch === '*' && currentEtag !== null) {
+    throw new PreconditionFailedError(blobPath);
+  }
+  if (options.ifMatch !== undefined && options.ifMatch !== currentEtag) {
+    throw new PreconditionFailedError(blobPath);
+  }
+}
+
+/**
+ * Serialize async work per key so a read-check-write sequence on one path
+ * cannot interleave with another in the same process.
+ */
+export function createPathLock() {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return async function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = tails.get(key) ?? Promise.resolve();
+    const run = previous.then(fn, fn);
+    const tail = run.catch(() => undefined);
+    tails.set(key, tail);
+    try {
+      return await run;
+    } finally {
+      if (tails.get(key) === tail) tails.delete(key);
+    }
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * @dev Storage entry point used by API routes
+ * Selects a driver from STORAGE_DRIVER (azure | local | memory | sqlite), wraps it
+ * with envelope encryption when STORAGE_MASTER_KEYS is set, and exposes the blob
+ * helpers every route relies on.
+ */
+
+import { createAzureDriver } from './azure';
+import { createLocalDriver } from './local';
+import { createMemoryDriver } from './memory';
+import { createSqliteDriver } from './sqlite';
+import { createEncryptedDriver } from './encryption';
+import { createKeyring, parseMasterKeys } from './keyring';
+import { PreconditionFailedError } from './errors';
+import type { StorageDriver, StorageDriverName, Versioned, WriteOptions } from './types';
+
+export type { StorageDriver, StorageDriverName, Versioned, WriteOptions } from './types';
+export { PreconditionFailedError } from './errors';
+
+// Singleton driver with HMR-safe global caching (keeps the memory driver's data across reloads)
+let driver: StorageDriver | undefined;
+
+export function createDriver(name: string): StorageDriver {
+  switch (name) {
+    case 'azure':
+      return createAzureDriver();
+    case 'local':
+      return createLocalDriver();
+    case 'memory': {
+      // Route bundles may load this module separately, so the blobs live on the global
+      const globalWithBlobs = global as typeof globalThis & { _memoryStorageBlobs?: Map<string, Buffer> };
+      globalWithBlobs._memoryStorageBlobs ??= new Map();
+      return createMemoryDriver(globalWithBlobs._memoryStorageBlobs);
+    }
+    case 'sqlite':
+      return createSqliteDriver();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${name}" (expected azure, local, memory or sqlite)`);
+  }
+}
+
+// Wrap a driver with per-user envelope encryption if master keys are configured
+export function withConfiguredEncryption(inner: StorageDriver): StorageDriver {
+  const masterKeys = parseMasterKeys();
+  if (masterKeys.length === 0) return inner;
+  return createEncryptedDriver(inner, createKeyring(inner, masterKeys));
+}
+
+export function getStorage(): StorageDriver {
+  if (driver) return driver;
+
+  const globalWithStorage = global as typeof globalThis & {
+    _storageDriver?: StorageDriver;
+  };
+
+  if (process.env.NODE_ENV === 'development' && globalWithStorage._storageDriver) {
+    driver = globalWithStorage._storageDriver;
+    return driver;
+  }
+
+  const name = (process.env.STORAGE_DRIVER || 'azure') as StorageDriverName;
+  driver = withConfiguredEncryption(createDriver(name));
+
+  if (process.env.NODE_ENV === 'development') {
+    globalWithStorage._storageDriver = driver;
+  }
+
+  return driver;
+}
+
+/** Replace the active driver (tests and scripts) */
+export function setStorage(next: StorageDriver): void {
+  driver = next;
+}
+
+// Encode email for use as a blob path segment
+export function encodeEmail(email: string): string {
+  return email
+    .toLowerCase()
+    .replace(/@/g, '_at_')
+    .replace(/[^a-z0-9._-]/g, '_');
+}
+
+// Generate a unique ID (replaces MongoDB ObjectId)
+export function generateId(): string {
+  const timestamp = Date.now().toString(16).padStart(12, '0');
+  const random = Math.random().toString(16).substring(2, 10);
+  return `${timestamp}${random}`;
+}
+
+// Upload a JSON object as a blob. Resolves to the new ETag.
+export function uploadJson(blobPath: string, data: unknown, options?: WriteOptions): Promise<string> {
+  return getStorage().uploadJson(blobPath, data, options);
+}
+
+// Download a blob and parse as JSON. Returns null if not found.
+export function downloadJson<T = unknown>(blobPath: string): Promise<T | null> {
+  return getStorage().downloadJson<T>(blobPath);
+}
+
+// Download a blob with its ETag. Returns null if not found.
+export function downloadJsonWithEtag<T = unknown>(blobPath: string): Promise<Versioned<T> | null> {
+  return getStorage().downloadJsonWithEtag<T>(blobPath);
+}
+
+const DEFAULT_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Read-modify-write a JSON blob with optimistic concurrency.
+ * The mutator receives a fresh copy on every attempt and may return null to
+ * abort without writing. Conflicting writes are retried; a caller-supplied
+ * `ifMatch` that is already stale fails immediately with PreconditionFailedError.
+ */
+export async function updateJson<T>(
+  blobPath: string,
+  mutate: (current: T) => T | null,
+  options: { ifMatch?: string; maxAttempts?: number } = {}
+): Promise<Versioned<T> | null> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_UPDATE_ATTEMPTS;
+
+  for (let attempt = 1; ; attempt++) {
+    const current = await downloadJsonWithEtag<T>(blobPath);
+    if (!current) return null;
+    if (options.ifMatch !== undefined && options.ifMatch !== current.etag) {
+      throw new PreconditionFailedError(blobPath);
+    }
+
+    const next = mutate(current.data);
+    if (next === null) return null;
+
+    try {
+      const etag = await uploadJson(blobPath, next, { ifMatch: current.etag });
+      return { data: next, etag };
+    } catch (err) {
+      if (!(err instanceof PreconditionFailedError) || attempt >= maxAttempts) throw err;
+      // Someone else wrote in between; back off briefly and re-read
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * 20 * attempt));
+    }
+  }
+}
+
+// Upload raw bytes (images, thumbnails) as a blob. Resolves to the new ETag.
+export function uploadBlob(blobPath: string, data: Buffer, contentType: string): Promise<string> {
+  return getStorage().uploadBlob(blobPath, data, contentType);
+}
+
+// Download a blob's raw bytes. Returns null if not found.
+export function downloadBlob(blobPath: string): Promise<Buffer | null> {
+  return getStorage().downloadBlob(blobPath);
+}
+
+// Delete a blob. Returns true if deleted, false if not found.
+export function deleteBlob(blobPath: string): Promise<boolean> {
+  return getStorage().deleteBlob(blobPath);
+}
+
+// List all blobs under a prefix and return their parsed JSON contents
+export function listJsonBlobs<T = unknown>(prefix: string): Promise<T[]> {
+  return getStorage().listJsonBlobs<T>(prefix);
+}
+
+// List the names of all blobs under a prefix
+export function listBlobs(prefix: string): Promise<string[]> {
+  return getStorage().listBlobs(prefix);
+}
@@ -0,0 +1,256 @@
+/**
+ * @dev Per-user data keys for envelope encryption
+ * Each user has a small key document at `keys/{emailKey}.json` holding their
+ * data keys, each wrapped (AES-256-GCM) by one of the configured master keys.
+ * Master keys never touch storage; data keys are only ever stored wrapped.
+ *
+ * Master keys come from STORAGE_MASTER_KEYS as a comma-separated list of
+ * `id:base64key` pairs (32-byte keys). The first entry wraps new data keys;
+ * later entries are kept so data keys wrapped by retired master keys can
+ * still be unwrapped until the rotation job has rewrapped them.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { PreconditionFailedError } from './errors';
+import type { StorageDriver } from './types';
+
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface WrappedDataKey {
+  id: string;
+  masterKeyId: string;
+  /** base64 of iv | tag | ciphertext */
+  wrapped: string;
+  createdAt: string;
+}
+
+export interface UserKeyDocument {
+  activeKeyId: string;
+  keys: WrappedDataKey[];
+}
+
+export interface DataKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface Keyring {
+  /** Key new data for this user is encrypted with (created on first use) */
+  getActiveKey(emailKey: string): Promise<DataKey>;
+  /** A specific data key, for decrypting data written before a rotation */
+  getKey(emailKey: string, keyId: string): Promise<DataKey>;
+  /** Add a fresh data key and make it active; older keys stay for decryption */
+  rotateDataKey(emailKey: string): Promise<DataKey>;
+  /** Rewrap every data key with the active master key. Resolves to true if anything changed. */
+  rewrapKeys(emailKey: string): Promise<boolean>;
+  /** Drop every data key except the active one (after re-encryption) */
+  pruneKeys(emailKey: string): Promise<number>;
+  /** Forget cached keys for a user (their key document was deleted) */
+  forget(emailKey: string): void;
+  /** Users that have a key document */
+  listUsers(): Promise<string[]>;
+}
+
+const KEY_PREFIX = 'keys/';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export function keyDocumentPath(emailKey: string): string {
+  return `${KEY_PREFIX}${emailKey}.json`;
+}
+
+/** True for key documents, which are stored (already wrapped) by the inner driver */
+export function isKeyDocumentPath(blobPath: string): boolean {
+  return blobPath.startsWith(KEY_PREFIX);
+}
+
+/**
+ * Parse `id:base64key[,id:base64key...]`. Returns an empty list when unset,
+ * which leaves encryption disabled.
+ */
+export function parseMasterKeys(value = process.env.STORAGE_MASTER_KEYS): MasterKey[] {
+  if (!value?.trim()) return [];
+
+  return value.split(',').map((entry) => {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error('STORAGE_MASTER_KEYS entries must look like "id:<base64 of 32 bytes>"');
+    }
+    return { id, key };
+  });
+}
+
+/** AES-256-GCM; output is iv | tag | ciphertext */
+export function seal(key: Buffer, plaintext: Buffer, aad?: string): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  if (aad) cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+export function open(key: Buffer, sealed: Buffer, aad?: string): Buffer {
+  const iv = sealed.subarray(0, IV_BYTES);
+  const tag = sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  if (aad) decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export function createKeyring(inner: StorageDriver, masterKeys: MasterKey[]): Keyring {
+  if (masterKeys.length === 0) throw new Error('At least one master key is required');
+  const activeMaster = masterKeys[0];
+
+  // Unwrapped keys per user, so each data key is only unwrapped once per process
+  const cache = new Map<string, Map<string, Buffer>>();
+
+  function masterKey(id: string): Buffer {
+    const master = masterKeys.find((m) => m.id === id);
+    if (!master) throw new Error(`Master key "${id}" is not configured`);
+    return master.key;
+  }
+
+  // The user's email key is the AAD, so a key document cannot be swapped between users
+  function wrap(emailKey: string, id: string): WrappedDataKey {
+    return {
+      id,
+      masterKeyId: activeMaster.id,
+      wrapped: seal(activeMaster.key, randomBytes(32), emailKey).toString('base64'),
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  function unwrap(emailKey: string, record: WrappedDataKey): Buffer {
+    return open(masterKey(record.masterKeyId), Buffer.from(record.wrapped, 'base64'), emailKey);
+  }
+
+  function newKeyId(): string {
+    return `dk-${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`;
+  }
+
+  async function loadDocument(emailKey: string): Promise<UserKeyDocument | null> {
+    return inner.downloadJson<UserKeyDocument>(keyDocumentPath(emailKey));
+  }
+
+  async function createDocument(emailKey: string): Promise<UserKeyDocument> {
+    const record = wrap(emailKey, newKeyId());
+    const document: UserKeyDocument = { activeKeyId: record.id, keys: [record] };
+    try {
+      await inner.uploadJson(keyDocumentPath(emailKey), document, { ifNoneMatch: '*' });
+      return document;
+    } catch (err) {
+      // Another request created the user's key first; use theirs
+      if (!(err instanceof PreconditionFailedError)) throw err;
+      return (await loadDocument(emailKey))!;
+    }
+  }
+
+  function resolveKey(emailKey: string, document: UserKeyDocument, id: string): DataKey {
+    const cached = cache.get(emailKey)?.get(id);
+    if (cached) return { id, key: cached };
+
+    const record = document.keys.find((k) => k.id === id);
+    if (!record) throw new Error(`Data key "${id}" not found for ${emailKey}`);
+
+    const key = unwrap(emailKey, record);
+    if (!cache.has(emailKey)) cache.set(emailKey, new Map());
+    cache.get(emailKey)!.set(id, key);
+    return { id, key };
+  }
+
+  // Read-modify-write of a key document with retry on concurrent writers
+  async function mutateDocument(
+    emailKey: string,
+    mutate: (document: UserKeyDocument) => UserKeyDocument | null
+  ): Promise<UserKeyDocument | null> {
+    const path = keyDocumentPath(emailKey);
+    for (let attempt = 1; ; attempt++) {
+      const current = await inner.downloadJsonWithEtag<UserKeyDocument>(path);
+      if (!current) return null;
+      const next = mutate(structuredClone(current.data));
+      if (!next) return current.data;
+      try {
+        await inner.uploadJson(path, next, { ifMatch: current.etag });
+        return next;
+      } catch (err) {
+        if (!(err instanceof PreconditionFailedError) || attempt >= 5) throw err;
+      }
+    }
+  }
+
+  return {
+    // The key document is re-read on every write so a rotation done by another
+    // process takes effect immediately; unwrapped keys are still cached
+    async getActiveKey(emailKey) {
+      const document = (await loadDocument(emailKey)) ?? (await createDocument(emailKey));
+      return resolveKey(emailKey, document, document.activeKeyId);
+    },
+
+    async getKey(emailKey, keyId) {
+      const cached = cache.get(emailKey)?.get(keyId);
+      if (cached) return { id: keyId, key: cached };
+
+      const document = await loadDocument(emailKey);
+      if (!document) throw new Error(`No data keys stored for ${emailKey}`);
+      return resolveKey(emailKey, document, keyId);
+    },
+
+    async rotateDataKey(emailKey) {
+      const record = wrap(emailKey, newKeyId());
+      const updated = await mutateDocument(emailKey, (document) => ({
+        activeKeyId: record.id,
+        keys: [...document.keys, record],
+      }));
+      const document = updated ?? (await createDocument(emailKey));
+      return resolveKey(emailKey, document, document.activeKeyId);
+    },
+
+    async rewrapKeys(emailKey) {
+      let changed = false;
+      await mutateDocument(emailKey, (document) => {
+        const stale = document.keys.filter((k) => k.masterKeyId !== activeMaster.id);
+        if (stale.length === 0) return null;
+        changed = true;
+        return {
+          ...document,
+          keys: document.keys.map((record) =>
+            record.masterKeyId === activeMaster.id
+              ? record
+              : {
+                  ...record,
+                  masterKeyId: activeMaster.id,
+                  wrapped: seal(activeMaster.key, unwrap(emailKey, record), emailKey).toString('base64'),
+                }
+          ),
+        };
+      });
+      return changed;
+    },
+
+    async pruneKeys(emailKey) {
+      let removed = 0;
+      await mutateDocument(emailKey, (document) => {
+        const keep = document.keys.filter((k) => k.id === document.activeKeyId);
+        removed = document.keys.length - keep.length;
+        return removed > 0 ? { ...document, keys: keep } : null;
+      });
+      cache.delete(emailKey);
+      return removed;
+    },
+
+    forget(emailKey) {
+      cache.delete(emailKey);
+    },
+
+    async listUsers() {
+      const names = await inner.listBlobs(KEY_PREFIX);
+      return names.map((name) => name.slice(KEY_PREFIX.length).replace(/\.json$/, ''));
+    },
+  };
+}
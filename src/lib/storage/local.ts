@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { assertWriteConditions, computeEtag, createPathLock } from './etag';
+import type { StorageDriver } from './types';
+
+const DEFAULT_ROOT = '.data/storage';
+
+function isNotFound(err: unknown): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && (err as { code: string }).code === 'ENOENT';
+}
+
+// Walk a directory tree and return every file path relative to `root`
+async function walk(root: string, dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (err) {
+    if (isNotFound(err)) return [];
+    throw err;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(root, full)));
+    } else if (entry.isFile() && !entry.name.endsWith('.tmp')) {
+      files.push(path.relative(root, full).split(path.sep).join('/'));
+    }
+  }
+  return files;
+}
+
+/**
+ * Filesystem driver that mirrors the blob layout under a local directory.
+ * Writes go through a temp file + rename so readers never see partial JSON.
+ * Conditional writes are serialized per path within this process only.
+ */
+export function createLocalDriver(rootDir = process.env.LOCAL_STORAGE_DIR || DEFAULT_ROOT): StorageDriver {
+  const root = path.resolve(rootDir);
+
+  // Resolve a blob path inside the root, refusing anything that escapes it
+  function resolvePath(blobPath: string): string {
+    const full = path.resolve(root, blobPath);
+    if (full !== root && !full.startsWith(root + path.sep)) {
+      throw new Error(`Invalid blob path: "${blobPath}"`);
+    }
+    return full;
+  }
+
+  const withLock = createPathLock();
+
+  async function readText(blobPath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(resolvePath(blobPath), 'utf8');
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+  }
+
+  const driver: StorageDriver = {
+    name: 'local',
+
+    async uploadJson(blobPath, data, options) {
+      const target = resolvePath(blobPath);
+      const content = JSON.stringify(data);
+
+      return withLock(target, async () => {
+        if (options?.ifMatch !== undefined || options?.ifNoneMatch !== undefined) {
+          const current = await readText(blobPath);
+          assertWriteConditions(blobPath, current === null ? null : computeEtag(current), options);
+        }
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+        await fs.writeFile(tmp, content);
+        await fs.rename(tmp, target);
+        return computeEtag(content);
+      });
+    },
+
+    async downloadJson<T = unknown>(blobPath: string): Promise<T | null> {
+      const text = await readText(blobPath);
+      return text === null ? null : (JSON.parse(text) as T);
+    },
+
+    async downloadJsonWithEtag<T = unknown>(blobPath: string) {
+      const text = await readText(blobPath);
+      return text === null ? null : { data: JSON.parse(text) as T, etag: computeEtag(text) };
+    },
+
+    async uploadBlob(blobPath, data) {
+      const target = resolvePath(blobPath);
+      return withLock(target, async () => {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+        await fs.writeFile(tmp, data);
+        await fs.rename(tmp, target);
+        return computeEtag(data);
+      });
+    },
+
+    async downloadBlob(blobPath) {
+      try {
+        return await fs.readFile(resolvePath(blobPath));
+      } catch (err) {
+        if (isNotFound(err)) return null;
+        throw err;
+      }
+    },
+
+    async deleteBlob(blobPath) {
+      try {
+        await fs.unlink(resolvePath(blobPath));
+        return true;
+      } catch (err) {
+        if (isNotFound(err)) return false;
+        throw err;
+      }
+    },
+
+    async listJsonBlobs<T = unknown>(prefix: string): Promise<T[]> {
+      const names = await driver.listBlobs(prefix);
+      const results: T[] = [];
+      for (const name of names) {
+        const data = await driver.downloadJson<T>(name);
+        if (data !== null) results.push(data);
+      }
+      return results;
+    },
+
+    async listBlobs(prefix) {
+      return (await walk(root, root)).filter((name) => name.startsWith(prefix)).sort();
+    },
+  };
+
+  return driver;
+}
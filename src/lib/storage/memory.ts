@@ -0,0 +1,59 @@
+import { assertWriteConditions, computeEtag } from './etag';
+import type { StorageDriver } from './types';
+
+/**
+ * In-memory driver for tests and throwaway local runs.
+ * Blobs are stored as serialized bytes so callers never share object references.
+ */
+export function createMemoryDriver(blobs = new Map<string, Buffer>()): StorageDriver {
+  function write(blobPath: string, content: Buffer, options?: Parameters<StorageDriver['uploadJson']>[2]) {
+    const current = blobs.get(blobPath);
+    assertWriteConditions(blobPath, current === undefined ? null : computeEtag(current), options);
+    blobs.set(blobPath, content);
+    return computeEtag(content);
+  }
+
+  const driver: StorageDriver = {
+    name: 'memory',
+
+    async uploadJson(blobPath, data, options) {
+      return write(blobPath, Buffer.from(JSON.stringify(data)), options);
+    },
+
+    async downloadJson<T = unknown>(blobPath: string): Promise<T | null> {
+      const content = blobs.get(blobPath);
+      return content === undefined ? null : (JSON.parse(content.toString()) as T);
+    },
+
+    async downloadJsonWithEtag<T = unknown>(blobPath: string) {
+      const content = blobs.get(blobPath);
+      return content === undefined ? null : { data: JSON.parse(content.toString()) as T, etag: computeEtag(content) };
+    },
+
+    async uploadBlob(blobPath, data) {
+      return write(blobPath, Buffer.from(data));
+    },
+
+    async downloadBlob(blobPath) {
+      const content = blobs.get(blobPath);
+      return content === undefined ? null : Buffer.from(content);
+    },
+
+    async deleteBlob(blobPath) {
+      return blobs.delete(blobPath);
+    },
+
+    async listJsonBlobs<T = unknown>(prefix: string): Promise<T[]> {
+      const names = await driver.listBlobs(prefix);
+      return names.map((name) => JSON.parse(blobs.get(name)!.toString()) as T);
+    },
+
+    async listBlobs(prefix) {
+      return Array.from(blobs.keys())
+        .filter((name) => name.startsWith(prefix))
+        .sort();
+    },
+  };
+
+  return driver;
+}
@@ -0,0 +1,55 @@
+import type { StorageDriver } from './types';
+
+export interface CopyResult {
+  copied: number;
+  skipped: number;
+}
+
+/**
+ * Copy every blob under the given prefixes from one driver to another.
+ * Blobs matched by `isBinary` are copied as raw bytes, everything else as JSON.
+ * Blobs already present in the target are skipped unless `overwrite` is set,
+ * so an interrupted run can simply be started again.
+ */
+export async function copyBlobs(
+  source: StorageDriver,
+  target: StorageDriver,
+  options: {
+    prefixes?: string[];
+    overwrite?: boolean;
+    isBinary?: (blobPath: string) => boolean;
+    onProgress?: (blobPath: string, status: 'copied' | 'skipped') => void;
+  } = {}
+): Promise<CopyResult> {
+  const { prefixes = [''], overwrite = false, isBinary = () => false, onProgress } = options;
+  const result: CopyResult = { copied: 0, skipped: 0 };
+
+  for (const prefix of prefixes) {
+    // One listing per prefix; checking each blob on its own is a full scan on some drivers
+    const existing = overwrite ? new Set<string>() : new Set(await target.listBlobs(prefix));
+
+    for (const blobPath of await source.listBlobs(prefix)) {
+      const binary = isBinary(blobPath);
+
+      if (existing.has(blobPath)) {
+        result.skipped++;
+        onProgress?.(blobPath, 'skipped');
+        continue;
+      }
+
+      if (binary) {
+        const data = await source.downloadBlob(blobPath);
+        if (data === null) continue;
+        await target.uploadBlob(blobPath, data, 'application/octet-stream');
+      } else {
+        const data = await source.downloadJson(blobPath);
+        if (data === null) continue;
+        await target.uploadJson(blobPath, data);
+      }
+      result.copied++;
+      onProgress?.(blobPath, 'copied');
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,302 @@
+/**
+ * @dev SQLite storage driver
+ * Maps the blob layout onto real tables so chat listings can use indexes:
+ *   users/{emailKey}.json          -> users
+ *   chats/{emailKey}/{chatId}.json -> chats + messages
+ *   anything else                  -> blobs (opaque JSON documents)
+ *   raw bytes (uploadBlob)         -> binary_blobs
+ * Encrypted chats (see encryption.ts) have no readable fields, so they are
+ * stored whole and the chat columns and message rows stay empty.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { assertWriteConditions, computeEtag } from './etag';
+import type { StorageDriver } from './types';
+
+const DEFAULT_PATH = '.data/algosensei.db';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    email_key  TEXT PRIMARY KEY,
+    email      TEXT,
+    document   TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_users_email ON users (email);
+
+  CREATE TABLE IF NOT EXISTS chats (
+    user_key        TEXT NOT NULL,
+    id              TEXT NOT NULL,
+    title           TEXT,
+    created_at      TEXT,
+    updated_at      TEXT,
+    split_messages  INTEGER NOT NULL DEFAULT 1,
+    document        TEXT NOT NULL,
+    PRIMARY KEY (user_key, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_chats_user_updated ON chats (user_key, updated_at DESC);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    user_key    TEXT NOT NULL,
+    chat_id     TEXT NOT NULL,
+    position    INTEGER NOT NULL,
+    role        TEXT,
+    created_at  TEXT,
+    document    TEXT NOT NULL,
+    PRIMARY KEY (user_key, chat_id, position),
+    FOREIGN KEY (user_key, chat_id) REFERENCES chats (user_key, id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS blobs (
+    path      TEXT PRIMARY KEY,
+    document  TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS binary_blobs (
+    path          TEXT PRIMARY KEY,
+    content_type  TEXT NOT NULL,
+    data          BLOB NOT NULL
+  );
+`;
+
+type BlobTarget =
+  | { kind: 'user'; emailKey: string }
+  | { kind: 'chat'; userKey: string; chatId: string }
+  | { kind: 'blob'; path: string };
+
+const USER_PATH = /^users\/([^/]+)\.json$/;
+const CHAT_PATH = /^chats\/([^/]+)\/([^/]+)\.json$/;
+const USER_CHATS_PREFIX = /^chats\/([^/]+)\/$/;
+
+function parseBlobPath(blobPath: string): BlobTarget {
+  const user = USER_PATH.exec(blobPath);
+  if (user) return { kind: 'user', emailKey: user[1] };
+  const chat = CHAT_PATH.exec(blobPath);
+  if (chat) return { kind: 'chat', userKey: chat[1], chatId: chat[2] };
+  return { kind: 'blob', path: blobPath };
+}
+
+function stringField(doc: Record<string, unknown>, key: string): string | null {
+  return typeof doc[key] === 'string' ? (doc[key] as string) : null;
+}
+
+interface ChatRow {
+  user_key: string;
+  id: string;
+  split_messages: number;
+  document: string;
+}
+
+export function createSqliteDriver(dbPath = process.env.SQLITE_PATH || DEFAULT_PATH): StorageDriver {
+  let dbPromise: Promise<BetterSqlite3.Database> | undefined;
+
+  // Load the native module lazily so other drivers never need it installed
+  function getDb(): Promise<BetterSqlite3.Database> {
+    dbPromise ??= (async () => {
+      const { default: Database } = await import('better-sqlite3');
+      if (dbPath !== ':memory:') {
+        await fs.mkdir(path.dirname(path.resolve(dbPath)), { recursive: true });
+      }
+      const db = new Database(dbPath);
+      db.pragma('journal_mode = WAL');
+      db.pragma('foreign_keys = ON');
+      db.exec(SCHEMA);
+      return db;
+    })();
+    return dbPromise;
+  }
+
+  function readChat(db: BetterSqlite3.Database, row: ChatRow): unknown {
+    const document = JSON.parse(row.document);
+    if (!row.split_messages) return document;
+    const messages = db
+      .prepare('SELECT document FROM messages WHERE user_key = ? AND chat_id = ? ORDER BY position')
+      .all(row.user_key, row.id) as { document: string }[];
+    return { ...document, messages: messages.map((m) => JSON.parse(m.document)) };
+  }
+
+  function writeChat(db: BetterSqlite3.Database, userKey: string, chatId: string, data: unknown) {
+    const doc = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+    // Documents without a messages array (e.g. opaque envelopes) are stored whole
+    const split = Array.isArray(doc.messages);
+    const { messages, ...rest } = doc;
+
+    db.transaction(() => {
+      db.prepare(
+        `INSERT INTO chats (user_key, id, title, created_at, updated_at, split_messages, document)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (user_key, id) DO UPDATE SET
+           title = excluded.title,
+           created_at = excluded.created_at,
+           updated_at = excluded.updated_at,
+           split_messages = excluded.split_messages,
+           document = excluded.document`
+      ).run(
+        userKey,
+        chatId,
+        stringField(doc, 'title'),
+        stringField(doc, 'createdAt'),
+        stringField(doc, 'updatedAt'),
+        split ? 1 : 0,
+        JSON.stringify(split ? rest : doc)
+      );
+
+      db.prepare('DELETE FROM messages WHERE user_key = ? AND chat_id = ?').run(userKey, chatId);
+      if (!split) return;
+
+      const insert = db.prepare(
+        'INSERT INTO messages (user_key, chat_id, position, role, created_at, document) VALUES (?, ?, ?, ?, ?, ?)'
+      );
+      (messages as unknown[]).forEach((message, position) => {
+        const m = (message && typeof message === 'object' ? message : {}) as Record<string, unknown>;
+        insert.run(userKey, chatId, position, stringField(m, 'role'), stringField(m, 'createdAt'), JSON.stringify(message));
+      });
+    })();
+  }
+
+  function readDocument(db: BetterSqlite3.Database, target: BlobTarget): unknown | null {
+    if (target.kind === 'user') {
+      const row = db.prepare('SELECT document FROM users WHERE email_key = ?').get(target.emailKey) as
+        | { document: string }
+        | undefined;
+      return row ? JSON.parse(row.document) : null;
+    }
+
+    if (target.kind === 'chat') {
+      const row = db
+        .prepare('SELECT user_key, id, split_messages, document FROM chats WHERE user_key = ? AND id = ?')
+        .get(target.userKey, target.chatId) as ChatRow | undefined;
+      return row ? readChat(db, row) : null;
+    }
+
+    const row = db.prepare('SELECT document FROM blobs WHERE path = ?').get(target.path) as
+      | { document: string }
+      | undefined;
+    return row ? JSON.parse(row.document) : null;
+  }
+
+  function writeDocument(db: BetterSqlite3.Database, target: BlobTarget, data: unknown) {
+    if (target.kind === 'user') {
+      const email = data && typeof data === 'object' ? stringField(data as Record<string, unknown>, 'email') : null;
+      db.prepare(
+        `INSERT INTO users (email_key, email, document) VALUES (?, ?, ?)
+         ON CONFLICT (email_key) DO UPDATE SET email = excluded.email, document = excluded.document`
+      ).run(target.emailKey, email, JSON.stringify(data));
+    } else if (target.kind === 'chat') {
+      writeChat(db, target.userKey, target.chatId, data);
+    } else {
+      db.prepare(
+        'INSERT INTO blobs (path, document) VALUES (?, ?) ON CONFLICT (path) DO UPDATE SET document = excluded.document'
+      ).run(target.path, JSON.stringify(data));
+    }
+  }
+
+  const driver: StorageDriver = {
+    name: 'sqlite',
+
+    async uploadJson(blobPath, data, options) {
+      const db = await getDb();
+      const target = parseBlobPath(blobPath);
+
+      // IMMEDIATE takes the write lock up front, so the check and write are atomic across processes
+      return db
+        .transaction(() => {
+          if (options?.ifMatch !== undefined || options?.ifNoneMatch !== undefined) {
+            const current = readDocument(db, target);
+            assertWriteConditions(blobPath, current === null ? null : computeEtag(JSON.stringify(current)), options);
+          }
+          writeDocument(db, target, data);
+          return computeEtag(JSON.stringify(readDocument(db, target)));
+        })
+        .immediate();
+    },
+
+    async downloadJson<T = unknown>(blobPath: string): Promise<T | null> {
+      const db = await getDb();
+      return readDocument(db, parseBlobPath(blobPath)) as T | null;
+    },
+
+    async downloadJsonWithEtag<T = unknown>(blobPath: string) {
+      const db = await getDb();
+      const data = readDocument(db, parseBlobPath(blobPath));
+      return data === null ? null : { data: data as T, etag: computeEtag(JSON.stringify(data)) };
+    },
+
+    async uploadBlob(blobPath, data, contentType) {
+      const db = await getDb();
+      db.prepare(
+        `INSERT INTO binary_blobs (path, content_type, data) VALUES (?, ?, ?)
+         ON CONFLICT (path) DO UPDATE SET content_type = excluded.content_type, data = excluded.data`
+      ).run(blobPath, contentType, data);
+      return computeEtag(data);
+    },
+
+    async downloadBlob(blobPath) {
+      const db = await getDb();
+      const row = db.prepare('SELECT data FROM binary_blobs WHERE path = ?').get(blobPath) as
+        | { data: Buffer }
+        | undefined;
+      return row ? row.data : null;
+    },
+
+    async deleteBlob(blobPath) {
+      const db = await getDb();
+      const target = parseBlobPath(blobPath);
+
+      if (target.kind === 'user') {
+        return db.prepare('DELETE FROM users WHERE email_key = ?').run(target.emailKey).changes > 0;
+      }
+      if (target.kind === 'chat') {
+        return db.prepare('DELETE FROM chats WHERE user_key = ? AND id = ?').run(target.userKey, target.chatId).changes > 0;
+      }
+      const json = db.prepare('DELETE FROM blobs WHERE path = ?').run(target.path).changes;
+      const binary = db.prepare('DELETE FROM binary_blobs WHERE path = ?').run(target.path).changes;
+      return json + binary > 0;
+    },
+
+    async listJsonBlobs<T = unknown>(prefix: string): Promise<T[]> {
+      const db = await getDb();
+
+      // Fast path: a user's chat list, served by idx_chats_user_updated
+      const userChats = USER_CHATS_PREFIX.exec(prefix);
+      if (userChats) {
+        const rows = db
+          .prepare(
+            'SELECT user_key, id, split_messages, document FROM chats WHERE user_key = ? ORDER BY updated_at DESC'
+          )
+          .all(userChats[1]) as ChatRow[];
+        return rows.map((row) => readChat(db, row) as T);
+      }
+
+      const results: T[] = [];
+      for (const name of await driver.listBlobs(prefix)) {
+        const data = await driver.downloadJson<T>(name);
+        if (data !== null) results.push(data);
+      }
+      return results;
+    },
+
+    async listBlobs(prefix) {
+      const db = await getDb();
+      const rows = db
+        .prepare(
+          `SELECT path FROM (
+             SELECT 'users/' || email_key || '.json' AS path FROM users
+             UNION ALL
+             SELECT 'chats/' || user_key || '/' || id || '.json' AS path FROM chats
+             UNION ALL
+             SELECT path FROM blobs
+             UNION ALL
+             SELECT path FROM binary_blobs
+           )
+           WHERE substr(path, 1, length(?)) = ?
+           ORDER BY path`
+        )
+        .all(prefix, prefix) as { path: string }[];
+      return rows.map((row) => row.path);
+    },
+  };
+
+  return driver;
+}
@@ -0,0 +1,52 @@
+/**
+ * @dev Storage driver contract shared by every backend
+ * Paths are slash-separated blob names (e.g. `chats/{emailKey}/{chatId}.json`)
+ */
+
+/** Conditional write options, mirroring HTTP If-Match / If-None-Match */
+export interface WriteOptions {
+  /** Only write if the blob's current ETag equals this value */
+  ifMatch?: string;
+  /** Pass '*' to only write if the blob does not exist yet */
+  ifNoneMatch?: '*';
+}
+
+/** A parsed JSON document together with the ETag of the version that was read */
+export interface Versioned<T> {
+  data: T;
+  etag: string;
+}
+
+export interface StorageDriver {
+  /** Human-readable driver name, used in logs */
+  readonly name: string;
+
+  /**
+   * Write a JSON document, replacing any existing one at the path.
+   * Resolves to the new ETag; throws PreconditionFailedError if a condition fails.
+   */
+  uploadJson(blobPath: string, data: unknown, options?: WriteOptions): Promise<string>;
+
+  /** Read and parse a JSON document. Returns null if not found. */
+  downloadJson<T = unknown>(blobPath: string): Promise<T | null>;
+
+  /** Read and parse a JSON document along with its ETag. Returns null if not found. */
+  downloadJsonWithEtag<T = unknown>(blobPath: string): Promise<Versioned<T> | null>;
+
+  /** Write raw bytes (images, thumbnails), replacing any existing blob. Resolves to the new ETag. */
+  uploadBlob(blobPath: string, data: Buffer, contentType: string): Promise<string>;
+
+  /** Read a blob's raw bytes. Returns null if not found. */
+  downloadBlob(blobPath: string): Promise<Buffer | null>;
+
+  /** Delete a blob. Returns true if deleted, false if not found. */
+  deleteBlob(blobPath: string): Promise<boolean>;
+
+  /** Return the parsed JSON contents of every blob under a prefix */
+  listJsonBlobs<T = unknown>(prefix: string): Promise<T[]>;
+
+  /** Return the names of every blob under a prefix, sorted */
+  listBlobs(prefix: string): Promise<string[]>;
+}
+
+export type StorageDriverName = 'azure' | 'local' | 'memory' | 'sqlite';
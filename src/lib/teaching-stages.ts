@@ -0,0 +1,167 @@
+/**
+ * @dev Teaching stage state machine for Socratic mode
+ * The six stages of the method are tracked per chat (`chat.teaching`). The
+ * tutor reports the stage of every reply with a marker line (see ai-stream.ts);
+ * the server accepts staying, revisiting an earlier stage or moving one stage
+ * ahead, and refuses larger jumps unless the learner asked to skip ahead. The
+ * learner moves back, or asks to skip, from the progress bar. Shared by the
+ * server and ChatInterface, so it holds no server-only imports.
+ */
+
+import type { StageTransition, StoredChat, TeachingState } from '@/lib/chat-schema';
+
+export const TEACHING_STAGES: { stage: number; label: string; short: string }[] = [
+  { stage: 1, label: 'Problem Understanding', short: 'Understand' },
+  { stage: 2, label: 'Manual Walkthrough', short: 'Walk through' },
+  { stage: 3, label: 'Pattern Recognition & Logic Building', short: 'Pattern' },
+  { stage: 4, label: 'Algorithm & Pseudocode', short: 'Pseudocode' },
+  { stage: 5, label: 'Implementation', short: 'Implement' },
+  { stage: 6, label: 'Verification & Pattern Linking', short: 'Verify' },
+];
+
+// Enough to undo a regenerated reply's move; older transitions are dropped
+const MAX_STAGE_HISTORY = 20;
+
+/**
+ * Thrown for a stage request from the learner that is not a stage.
+ */
+export class TeachingStageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TeachingStageError';
+  }
+}
+
+export function isTeachingStage(value: unknown): value is number {
+  return typeof value === 'number' && TEACHING_STAGES.some((entry) => entry.stage === value);
+}
+
+export function stageLabel(stage: number): string {
+  return TEACHING_STAGES.find((entry) => entry.stage === stage)?.label ?? '';
+}
+
+/** The chat's stage state; a chat that never changed stage is at stage 1 */
+export function teachingStateOf(chat: Pick<StoredChat, 'teaching'>): TeachingState {
+  return chat.teaching ?? { stage: 1, history: [] };
+}
+
+function withTransition(state: TeachingState, transition: StageTransition): TeachingState {
+  return { ...state, stage: transition.to, history: [...state.history, transition].slice(-MAX_STAGE_HISTORY) };
+}
+
+/**
+ * The state a regenerated reply starts from: if the reply being replaced made
+ * the latest stage change, that change is undone.
+ */
+export function rewindReply(state: TeachingState, messageId: string): TeachingState {
+  const last = state.history[state.history.length - 1];
+  if (last?.by !== 'tutor' || last.messageId !== messageId) return state;
+  return { ...state, stage: last.from, history: state.history.slice(0, -1) };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Learner requests                                                   */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Apply a stage picked on the progress bar with the learner's message: an
+ * earlier stage is entered right away, a later one is granted to the tutor as
+ * a skip it may make, the current one withdraws a pending skip.
+ */
+export function requestStage(chat: StoredChat, stage: unknown, messageId: string) {
+  if (!isTeachingStage(stage)) throw new TeachingStageError('Unknown teaching stage');
+
+  let state = teachingStateOf(chat);
+  if (stage < state.stage) {
+    state = withTransition(state, { from: state.stage, to: stage, by: 'learner', messageId, at: new Date().toISOString() });
+    delete state.skipTo;
+  } else if (stage > state.stage) {
+    state = { ...state, skipTo: stage };
+  } else {
+    state = { ...state };
+    delete state.skipTo;
+  }
+  delete state.rejected;
+  chat.teaching = state;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Tutor moves                                                        */
+/* ------------------------------------------------------------------ */
+
+/** Why the tutor may not move to `to`, or null when it may */
+export function checkStageMove(state: TeachingState, to: number): string | null {
+  if (!isTeachingStage(to)) return 'the marker does not name a stage from 1 to 6';
+  if (to <= state.stage + 1) return null;
+  if (state.skipTo && to <= state.skipTo) return null;
+  return `moving from Stage ${state.stage} to Stage ${to} skips stages the learner has not asked to skip`;
+}
+
+/**
+ * Record the outcome of a finished reply: the stage it moved to, or the
+ * refused move (reported to the tutor on the next turn). `to` is null when
+ * the reply carried no marker, which keeps the stage.
+ */
+export function settleTutorStage(chat: StoredChat, messageId: string, to: number | null, regenerated = false) {
+  let state = teachingStateOf(chat);
+  if (regenerated) state = rewindReply(state, messageId);
+  state = { ...state };
+  delete state.rejected;
+
+  const refused = to === null ? null : checkStageMove(state, to);
+  if (to !== null && refused) {
+    state.rejected = { to, reason: refused };
+  } else if (to !== null && to !== state.stage) {
+    state = withTransition(state, { from: state.stage, to, by: 'tutor', messageId, at: new Date().toISOString() });
+    if (state.skipTo && to >= state.skipTo) delete state.skipTo;
+  }
+  chat.teaching = state;
+}
+
+/** The stage number of a stored reply's badge ("Stage N — label"), if it has one */
+export function stageOfReply(badge: string | undefined): number | null {
+  const stage = Number(/^Stage (\d+)/.exec(badge ?? '')?.[1]);
+  return isTeachingStage(stage) ? stage : null;
+}
+
+/**
+ * Follow the learner switching which answer of a reply is shown. For the
+ * latest reply, the stage change of the previously shown answer is undone and
+ * the stage the selected answer ended at applies instead (it was validated
+ * from the same starting stage when generated). Earlier replies leave the
+ * stage alone, since the turns after them already moved on from it.
+ */
+export function selectReplyStage(chat: StoredChat, messageId: string, stage: number | null) {
+  if (chat.activeLeafId !== messageId) return;
+
+  let state = { ...rewindReply(teachingStateOf(chat), messageId) };
+  delete state.rejected;
+  if (stage !== null && stage !== state.stage) {
+    state = withTransition(state, { from: state.stage, to: stage, by: 'tutor', messageId, at: new Date().toISOString() });
+    if (state.skipTo && stage >= state.skipTo) delete state.skipTo;
+  }
+  chat.teaching = state;
+}
+
+/**
+ * The current stage and pending requests, for the system prompt. The marker
+ * protocol itself is the `stage-protocol` prompt module.
+ */
+export function stageContext(state: TeachingState, learnerMoved = false): string {
+  const lines = ['━━━ TEACHING STAGE ━━━', `– Current stage: Stage ${state.stage} — ${stageLabel(state.stage)}.`];
+  const last = state.history[state.history.length - 1];
+  if (learnerMoved && last?.by === 'learner') {
+    lines.push(`– The learner just went back to this stage from Stage ${last.from}. Pick up from here.`);
+  }
+  if (state.skipTo) {
+    lines.push(
+      `– The learner asked to skip ahead to Stage ${state.skipTo} — ${stageLabel(state.skipTo)}. You may move straight there; briefly note what is being skipped.`
+    );
+  }
+  if (state.rejected) {
+    lines.push(
+      `– Your previous reply tried to move to Stage ${state.rejected.to}, which was refused: ${state.rejected.reason}. You are still at Stage ${state.stage}.`
+    );
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,84 @@
+/**
+ * @dev Tutoring modes
+ * A chat's `mode` picks the prompt modules the tutor is composed from (see
+ * lib/prompts) and the affordances ChatInterface offers. Shared by the server
+ * and the client, so it holds no server-only imports.
+ */
+
+export type TutorMode = 'socratic' | 'quick-explain' | 'code-review' | 'mock-interview';
+
+export const DEFAULT_TUTOR_MODE: TutorMode = 'socratic';
+
+export interface TutorModeInfo {
+  id: TutorMode;
+  label: string;
+  description: string;
+  /** Composer placeholder */
+  placeholder: string;
+  /** Offer the progressive hint button */
+  hints: boolean;
+  /** Track the six teaching stages (see teaching-stages.ts) and show the stage progress bar */
+  stages: boolean;
+  /** Offer the code panel for pasting code */
+  codeInput: boolean;
+}
+
+export const TUTOR_MODES: TutorModeInfo[] = [
+  {
+    id: 'socratic',
+    label: 'Socratic',
+    description: 'Guided, stage-by-stage problem solving with visuals',
+    placeholder: 'Ask a DSA question, or upload a problem screenshot...',
+    hints: true,
+    stages: true,
+    codeInput: false,
+  },
+  {
+    id: 'quick-explain',
+    label: 'Quick Explain',
+    description: 'Direct, short answers to concept questions',
+    placeholder: 'Ask about a concept, e.g. "What is the time complexity of heapify?"',
+    hints: false,
+    stages: false,
+    codeInput: false,
+  },
+  {
+    id: 'code-review',
+    label: 'Code Review',
+    description: 'Paste a solution and get line-level feedback',
+    placeholder: 'Describe the problem your code solves (optional)...',
+    hints: false,
+    stages: false,
+    codeInput: true,
+  },
+  {
+    id: 'mock-interview',
+    label: 'Mock Interview',
+    description: 'Solve a problem the way you would in a coding interview',
+    placeholder: 'Say which topic or difficulty you want to practise, or just "start"...',
+    hints: false,
+    stages: false,
+    codeInput: true,
+  },
+];
+
+export function isTutorMode(value: unknown): value is TutorMode {
+  return TUTOR_MODES.some((mode) => mode.id === value);
+}
+
+export function getTutorMode(mode: TutorMode | undefined): TutorModeInfo {
+  return TUTOR_MODES.find((info) => info.id === mode) ?? TUTOR_MODES[0];
+}
+
+/**
+ * Prefix every line of fenced code blocks with its line number ("12 | ..."),
+ * so code review feedback can point at lines. Text outside blocks is unchanged.
+ */
+export function numberCodeLines(text: string): string {
+  return text.replace(/```([^\n`]*)\n([\s\S]*?)```/g, (_, info: string, code: string) => {
+    const lines = code.replace(/\n$/, '').split('\n');
+    const width = String(lines.length).length;
+    const numbered = lines.map((line, index) => `${String(index + 1).padStart(width)} | ${line}`);
+    return `\`\`\`${info}\n${numbered.join('\n')}\n\`\`\``;
+  });
+}
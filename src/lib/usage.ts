@@ -0,0 +1,242 @@
+/**
+ * @dev Token usage and cost accounting
+ * Every model call made for a learner is recorded with its chat, model and
+ * token counts (from the provider's usage report, or estimated locally), in
+ * one document per user per UTC day: `usage/{emailKey}/{YYYY-MM-DD}.json`.
+ * Costs use per-model prices, overridable with LLM_PRICING.
+ */
+
+import {
+  downloadJson,
+  encodeEmail,
+  generateId,
+  listBlobs,
+  PreconditionFailedError,
+  updateJson,
+  uploadJson,
+} from '@/lib/storage';
+import type { TokenUsage } from '@/lib/llm';
+import { recordTokenUsage } from '@/lib/rate-limit';
+
+export interface UsageRecord {
+  _id: string;
+  chatId: string;
+  /** The assistant message the call produced or prepared */
+  messageId?: string;
+  /** `reply` for answers, `summary` for condensing older turns, `debrief` for grading a mock interview */
+  kind: 'reply' | 'summary' | 'debrief';
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Counts were estimated because the provider reported no usage */
+  estimated: boolean;
+  costUsd: number;
+  createdAt: string;
+}
+
+export interface UsageDay {
+  date: string;
+  userEmail: string;
+  records: UsageRecord[];
+}
+
+/** Totals for one day (or one user, chat or model) */
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  days: (UsageTotals & { date: string })[];
+  models: (UsageTotals & { model: string })[];
+}
+
+export const MAX_REPORT_DAYS = 90;
+
+/* ------------------------------------------------------------------ */
+/*  Pricing                                                            */
+/* ------------------------------------------------------------------ */
+
+// USD per million tokens, [prompt, completion]; models not listed cost nothing (local models, mock)
+const DEFAULT_PRICES: Record<string, [number, number]> = {
+  'gpt-4o': [2.5, 10],
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4.1': [2, 8],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1-nano': [0.1, 0.4],
+};
+
+// LLM_PRICING is JSON like {"my-deployment": [2.5, 10]}, merged over the defaults
+function loadPrices(): Record<string, [number, number]> {
+  const raw = process.env.LLM_PRICING;
+  if (!raw) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...(JSON.parse(raw) as Record<string, [number, number]>) };
+  } catch {
+    console.error('LLM_PRICING is not valid JSON; using default prices');
+    return DEFAULT_PRICES;
+  }
+}
+
+const prices = loadPrices();
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const price = prices[model];
+  if (!price) return 0;
+  return (usage.promptTokens * price[0] + usage.completionTokens * price[1]) / 1_000_000;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Recording                                                          */
+/* ------------------------------------------------------------------ */
+
+function usageDate(time: Date): string {
+  return time.toISOString().slice(0, 10);
+}
+
+function usageDayPath(emailKey: string, date: string): string {
+  return `usage/${emailKey}/${date}.json`;
+}
+
+/** Append a usage record to the user's document for today */
+export async function recordUsage(
+  userEmail: string,
+  entry: Omit<UsageRecord, '_id' | 'costUsd' | 'createdAt'>
+): Promise<UsageRecord> {
+  const now = new Date();
+  const record: UsageRecord = {
+    _id: generateId(),
+    ...entry,
+    costUsd: estimateCost(entry.model, entry),
+    createdAt: now.toISOString(),
+  };
+  const date = usageDate(now);
+  const path = usageDayPath(encodeEmail(userEmail), date);
+
+  for (let attempt = 1; ; attempt++) {
+    const updated = await updateJson<UsageDay>(path, (day) => ({ ...day, records: [...day.records, record] }));
+    if (updated) return record;
+    try {
+      await uploadJson(path, { date, userEmail, records: [record] } satisfies UsageDay, { ifNoneMatch: '*' });
+      return record;
+    } catch (err) {
+      // Another request created today's document first; append to it instead
+      if (!(err instanceof PreconditionFailedError) || attempt >= 3) throw err;
+    }
+  }
+}
+
+/**
+ * Record a model call and count it towards the user's daily token quota.
+ * Failures are logged, never thrown: accounting must not break a reply.
+ */
+export async function trackUsage(userEmail: string, entry: Omit<UsageRecord, '_id' | 'costUsd' | 'createdAt'>) {
+  try {
+    await Promise.all([recordUsage(userEmail, entry), recordTokenUsage(encodeEmail(userEmail), entry.totalTokens)]);
+  } catch (error) {
+    console.error('Failed to record token usage:', error);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  Reports                                                            */
+/* ------------------------------------------------------------------ */
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord) {
+  totals.requests++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.costUsd += record.costUsd;
+}
+
+/** The last `days` UTC dates, oldest first */
+export function reportDates(days: number, now = new Date()): string[] {
+  const count = Math.min(Math.max(1, Math.floor(days)), MAX_REPORT_DAYS);
+  return Array.from({ length: count }, (_, i) => usageDate(new Date(now.getTime() - (count - 1 - i) * 86_400_000)));
+}
+
+/** Per-day and per-model totals over a set of usage documents */
+export function buildUsageReport(dates: string[], usageDays: UsageDay[]): UsageReport {
+  const totals = emptyTotals();
+  const byDate = new Map(dates.map((date) => [date, emptyTotals()]));
+  const byModel = new Map<string, UsageTotals>();
+
+  for (const day of usageDays) {
+    const dayTotals = byDate.get(day.date);
+    if (!dayTotals) continue;
+    for (const record of day.records) {
+      addRecord(totals, record);
+      addRecord(dayTotals, record);
+      if (!byModel.has(record.model)) byModel.set(record.model, emptyTotals());
+      addRecord(byModel.get(record.model)!, record);
+    }
+  }
+
+  return {
+    from: dates[0],
+    to: dates[dates.length - 1],
+    totals,
+    days: dates.map((date) => ({ date, ...byDate.get(date)! })),
+    models: Array.from(byModel, ([model, modelTotals]) => ({ model, ...modelTotals })).sort(
+      (a, b) => b.totalTokens - a.totalTokens
+    ),
+  };
+}
+
+/** One user's usage over the last `days` days */
+export async function getUserUsage(userEmail: string, days: number): Promise<UsageReport & { chats: (UsageTotals & { chatId: string })[] }> {
+  const dates = reportDates(days);
+  const emailKey = encodeEmail(userEmail);
+  const usageDays = (await Promise.all(dates.map((date) => downloadJson<UsageDay>(usageDayPath(emailKey, date))))).filter(
+    (day): day is UsageDay => day !== null
+  );
+
+  const byChat = new Map<string, UsageTotals>();
+  for (const record of usageDays.flatMap((day) => day.records)) {
+    if (!byChat.has(record.chatId)) byChat.set(record.chatId, emptyTotals());
+    addRecord(byChat.get(record.chatId)!, record);
+  }
+
+  return {
+    ...buildUsageReport(dates, usageDays),
+    chats: Array.from(byChat, ([chatId, chatTotals]) => ({ chatId, ...chatTotals })).sort(
+      (a, b) => b.totalTokens - a.totalTokens
+    ),
+  };
+}
+
+/** Usage of every user over the last `days` days, for the admin view */
+export async function getAllUsage(days: number): Promise<UsageReport & { users: (UsageTotals & { userEmail: string })[] }> {
+  const dates = reportDates(days);
+  const wanted = new Set(dates);
+  const names = (await listBlobs('usage/')).filter((name) => wanted.has(name.split('/').pop()!.replace(/\.json$/, '')));
+  const usageDays = (await Promise.all(names.map((name) => downloadJson<UsageDay>(name)))).filter(
+    (day): day is UsageDay => day !== null
+  );
+
+  const byUser = new Map<string, UsageTotals>();
+  for (const day of usageDays) {
+    if (!byUser.has(day.userEmail)) byUser.set(day.userEmail, emptyTotals());
+    day.records.forEach((record) => addRecord(byUser.get(day.userEmail)!, record));
+  }
+
+  return {
+    ...buildUsageReport(dates, usageDays),
+    users: Array.from(byUser, ([userEmail, userTotals]) => ({ userEmail, ...userTotals })).sort(
+      (a, b) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens
+    ),
+  };
+}
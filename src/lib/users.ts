@@ -0,0 +1,90 @@
+/**
+ * @dev Stored user records and account tombstones
+ */
+
+import { createHash } from 'crypto';
+import { encodeEmail, downloadJson, listBlobs } from '@/lib/storage';
+
+export interface StoredUser {
+  _id: string;
+  username: string;
+  email: string;
+  password: string;
+  createdAt: string;
+  name?: string;
+  image?: string;
+  bio?: string;
+  preferredLanguages?: string[];
+}
+
+/**
+ * Audit record left behind when an account is deleted. Holds no PII: the
+ * email is only kept as a hash so the record can be matched to old sessions.
+ */
+export interface AccountTombstone {
+  userId: string;
+  emailHash: string;
+  status: 'pending' | 'completed';
+  requestedAt: string;
+  completedAt?: string;
+  deleted?: {
+    chats: number;
+    attachments: number;
+    blobs: number;
+    memories: boolean;
+  };
+}
+
+export function userBlobPath(email: string): string {
+  return `users/${encodeEmail(email)}.json`;
+}
+
+export function getUser(email: string): Promise<StoredUser | null> {
+  return downloadJson<StoredUser>(userBlobPath(email));
+}
+
+/** Whether the user may see data across all users (ADMIN_EMAILS, comma-separated) */
+export function isAdmin(email: string): boolean {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .includes(email.toLowerCase());
+}
+
+export function hashEmail(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
+
+// One tombstone per deletion, named by its timestamp so the latest is found without downloads
+export function tombstonePath(email: string, deletedAt: number): string {
+  return `tombstones/${hashEmail(email)}/${deletedAt}.json`;
+}
+
+// Checked on every authenticated request, so lookups are cached per process; a
+// deletion made by another instance takes effect here within this time
+const DELETED_AT_CACHE_MS = 60_000;
+const deletedAtCache = new Map<string, { deletedAt: number | null; expiresAt: number }>();
+
+/**
+ * Time (ms) the account with this email was last deleted, or null if never.
+ * Sessions issued before this moment must be rejected.
+ */
+export async function getAccountDeletedAt(email: string): Promise<number | null> {
+  const emailHash = hashEmail(email);
+  const cached = deletedAtCache.get(emailHash);
+  if (cached && cached.expiresAt > Date.now()) return cached.deletedAt;
+
+  const names = await listBlobs(`tombstones/${emailHash}/`);
+  const times = names
+    .map((name) => Number(name.slice(name.lastIndexOf('/') + 1).replace(/\.json$/, '')))
+    .filter((time) => Number.isFinite(time));
+  const deletedAt = times.length ? Math.max(...times) : null;
+  deletedAtCache.set(emailHash, { deletedAt, expiresAt: Date.now() + DELETED_AT_CACHE_MS });
+  return deletedAt;
+}
+
+/** Record a deletion made by this process, so its sessions stop working without waiting for the cache */
+export function noteAccountDeleted(email: string, deletedAt: number) {
+  deletedAtCache.set(hashEmail(email), { deletedAt, expiresAt: Date.now() + DELETED_AT_CACHE_MS });
+}
@@ -0,0 +1,168 @@
+/**
+ * @dev /api/ai end to end on the offline providers: the mock model and
+ * record/replay fixtures, with an in-memory storage driver and a real
+ * (test-secret) session cookie.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { encode } from 'next-auth/jwt';
+import { testApiHandler } from 'next-test-api-route-handler';
+import { createAiEventParser, type AiStreamEvent } from '@/lib/ai-events';
+import { createChat, type StoredChat } from '@/lib/chat-schema';
+import { getChat } from '@/lib/chats';
+import { createProvider, setLLMProvider } from '@/lib/llm';
+import { createRecordingProvider, createReplayProvider } from '@/lib/llm/fixtures';
+import { encodeEmail, setStorage, uploadJson } from '@/lib/storage';
+import { createMemoryDriver } from '@/lib/storage/memory';
+
+process.env.NEXTAUTH_SECRET = 'test-secret';
+process.env.NEXTAUTH_URL = 'http://localhost:3000';
+
+const EMAIL = 'ada@example.com';
+const emailKey = encodeEmail(EMAIL);
+
+let fixturesDir: string;
+let POST: typeof import('@/app/api/ai/route').POST;
+
+before(async () => {
+  fixturesDir = await mkdtemp(path.join(tmpdir(), 'algosensei-fixtures-'));
+  // Loaded after the auth environment above is set
+  ({ POST } = await import('@/app/api/ai/route'));
+});
+after(() => rm(fixturesDir, { recursive: true, force: true }));
+
+beforeEach(() => {
+  setStorage(createMemoryDriver(new Map()));
+});
+
+async function seedChat(chatId: string): Promise<void> {
+  await uploadJson(`chats/${emailKey}/${chatId}.json`, createChat({ _id: chatId, userEmail: EMAIL, title: 'Binary search', sessionId: null }));
+}
+
+async function storedChat(chatId: string): Promise<StoredChat> {
+  const result = await getChat(emailKey, chatId);
+  assert.ok(result, `chat ${chatId} should exist`);
+  return result.data;
+}
+
+async function sessionCookie(): Promise<string> {
+  const token = await encode({
+    token: { email: EMAIL, user: { id: 'u1', email: EMAIL }, iat: Math.floor(Date.now() / 1000) },
+    secret: process.env.NEXTAUTH_SECRET!,
+  });
+  return `next-auth.session-token=${token}`;
+}
+
+async function postAi(body: unknown, { signedIn = true } = {}): Promise<{ status: number; text: string }> {
+  let result = { status: 0, text: '' };
+  await testApiHandler({
+    appHandler: { POST },
+    async test({ fetch }) {
+      const headers: Record<string, string> = { 'content-type': 'application/json' };
+      if (signedIn) headers.cookie = await sessionCookie();
+      const response = await fetch({ method: 'POST', headers, body: JSON.stringify(body) });
+      result = { status: response.status, text: await response.text() };
+    },
+  });
+  return result;
+}
+
+function ask(chatId: string, content: string) {
+  return postAi({ chatId, message: { id: `m-${content.length}`, content } });
+}
+
+function parseAiEvents(text: string): AiStreamEvent[] {
+  return createAiEventParser()(`${text}\n\n`);
+}
+
+function replyText(text: string): string {
+  return parseAiEvents(text)
+    .map((event) => (event.type === 'token' ? event.text : ''))
+    .join('');
+}
+
+describe('/api/ai with the mock provider', () => {
+  before(() => setLLMProvider(createProvider('mock')));
+
+  it('rejects requests without a session', async () => {
+    await seedChat('c1');
+    const { status } = await postAi({ chatId: 'c1', message: { content: 'hi' } }, { signedIn: false });
+    assert.equal(status, 401);
+  });
+
+  it('streams the reply and stores both turns', async () => {
+    await seedChat('c1');
+    const { status, text } = await ask('c1', 'How does binary search work?');
+    assert.equal(status, 200);
+
+    const events = parseAiEvents(text);
+    assert.equal(events[0]?.type, 'start');
+    assert.deepEqual(events[events.length - 1], { type: 'done', reason: 'complete' });
+    assert.match(replyText(text), /Mock tutor:.*How does binary search work\?/);
+
+    const chat = await storedChat('c1');
+    assert.deepEqual(chat.messages.map((m) => m.role), ['user', 'assistant']);
+    assert.equal(chat.messages[1].content, replyText(text));
+    assert.equal(chat.messages[1].status, undefined);
+  });
+
+  it('keeps a reply that failed mid-stream, marked incomplete', async () => {
+    await seedChat('c1');
+    const { status, text } = await ask('c1', '/mock:error explain heaps');
+    assert.equal(status, 200);
+    assert.ok(parseAiEvents(text).some((event) => event.type === 'error'));
+
+    const chat = await storedChat('c1');
+    assert.deepEqual(chat.messages.map((m) => m.role), ['user', 'assistant']);
+    assert.equal(chat.messages[1].status, 'incomplete');
+  });
+
+  it('stores nothing when the provider fails before the first token', async () => {
+    await seedChat('c1');
+    const { status } = await ask('c1', '/mock:fail explain heaps');
+    assert.equal(status, 500);
+    assert.deepEqual((await storedChat('c1')).messages, []);
+  });
+
+  it('answers 404 for a chat that does not exist', async () => {
+    const { status } = await ask('missing', 'hello');
+    assert.equal(status, 404);
+  });
+});
+
+describe('/api/ai with recorded fixtures', () => {
+  let recorded: string;
+
+  before(async () => {
+    // Record against the mock, then serve the same request back from the fixture
+    const recorder = createRecordingProvider(createProvider('mock'), { dir: fixturesDir });
+    setLLMProvider(recorder);
+    await seedChat('c1');
+    recorded = replyText((await ask('c1', 'What is a stack?')).text);
+    setLLMProvider(createReplayProvider({ dir: fixturesDir }));
+  });
+
+  it('records one fixture per completion', async () => {
+    assert.equal((await readdir(fixturesDir)).filter((file) => file.endsWith('.json')).length, 1);
+  });
+
+  it('replays the recorded completion for the same conversation', async () => {
+    await seedChat('c2');
+    const { status, text } = await ask('c2', 'What is a stack?');
+    assert.equal(status, 200);
+    assert.equal(replyText(text), recorded);
+    assert.equal((await storedChat('c2')).messages[1].content, recorded);
+  });
+
+  it('fails with the missing fixture named when the conversation was not recorded', async () => {
+    await seedChat('c3');
+    const { status, text } = await ask('c3', 'What is a queue?');
+    assert.equal(status, 500);
+    assert.match(JSON.parse(text).details, /No LLM fixture \w+\.json/);
+    assert.deepEqual((await storedChat('c3')).messages, []);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @dev Fixture keys and replay errors of the record/replay LLM providers
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { InvalidFixtureError, MissingFixtureError, type CompletionRequest } from '@/lib/llm';
+import { createReplayProvider, fixtureKey } from '@/lib/llm/fixtures';
+
+const system = (memories: string, minutesLeft = 30): CompletionRequest['messages'][number] => ({
+  role: 'system',
+  content: [
+    'You are a tutor.',
+    '━━━ HARD RULES ━━━\n1. Never give the full solution.',
+    `━━━ LEARNER CONTEXT (from memory) ━━━\n${memories}`,
+    `━━━ INTERVIEW SESSION ━━━\n– Time: 45-minute interview, ${minutesLeft} minutes left.`,
+  ].join('\n\n'),
+});
+
+const request = (memories: string, question = 'What is a heap?', minutesLeft?: number): CompletionRequest => ({
+  messages: [system(memories, minutesLeft), { role: 'user', content: question }],
+  temperature: 0.7,
+});
+
+describe('fixtureKey', () => {
+  it('ignores learner memories and the interview clock', () => {
+    assert.equal(fixtureKey(request('- likes graphs')), fixtureKey(request('- likes heaps\n- prefers Python', undefined, 12)));
+  });
+
+  it('still tells apart conversations and stable prompt sections', () => {
+    assert.notEqual(fixtureKey(request('- a')), fixtureKey(request('- a', 'What is a trie?')));
+    const rules = request('- a');
+    rules.messages[0] = { ...rules.messages[0], content: String(rules.messages[0].content).replace('Never', 'Always') };
+    assert.notEqual(fixtureKey(request('- a')), fixtureKey(rules));
+  });
+});
+
+describe('replay provider', () => {
+  let dir: string;
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'algosensei-replay-'));
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  let asked = 0;
+  // A new question per call, so every case gets its own fixture file
+  async function replay(fixture: string | null) {
+    const req = request('- a', `question ${++asked}`);
+    if (fixture !== null) await writeFile(path.join(dir, `${fixtureKey(req)}.json`), fixture);
+    const chunks = [];
+    for await (const chunk of createReplayProvider({ dir }).streamChat(req)) chunks.push(chunk);
+    return chunks;
+  }
+
+  it('serves recorded chunks and the recorded error', async () => {
+    const chunks = [{ type: 'text', text: 'Hi' }, { type: 'usage', usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 } }];
+    assert.deepEqual(await replay(JSON.stringify({ chunks })), chunks);
+    await assert.rejects(replay(JSON.stringify({ chunks: [], error: 'upstream 503' })), /upstream 503/);
+  });
+
+  it('reports a missing fixture as MissingFixtureError', async () => {
+    await assert.rejects(replay(null), MissingFixtureError);
+  });
+
+  it('reports unparsable and malformed fixtures as InvalidFixtureError naming the file', async () => {
+    await assert.rejects(replay('{not json'), (error) => error instanceof InvalidFixtureError && error.file.startsWith(dir));
+    await assert.rejects(replay(JSON.stringify({ chunks: ['plain text'] })), InvalidFixtureError);
+    await assert.rejects(replay(JSON.stringify({ chunks: [{ type: 'image' }] })), InvalidFixtureError);
+    await assert.rejects(replay(JSON.stringify({ key: 'x' })), InvalidFixtureError);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @dev Contract tests run against every storage driver that works offline
+ * (memory, local files, SQLite). Azure is left to its own integration setup.
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { PreconditionFailedError, type StorageDriver } from '@/lib/storage';
+import { createLocalDriver } from '@/lib/storage/local';
+import { createMemoryDriver } from '@/lib/storage/memory';
+import { createSqliteDriver } from '@/lib/storage/sqlite';
+
+const chat = (id: string, title: string) => ({
+  _id: id,
+  userEmail: 'ada@example.com',
+  title,
+  messages: [{ id: 'm1', role: 'user', content: 'What is a heap?', createdAt: '2024-01-01T00:00:00.000Z' }],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+async function tempDir(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'algosensei-storage-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+const drivers: [string, () => Promise<StorageDriver>][] = [
+  ['memory', async () => createMemoryDriver(new Map())],
+  ['local', async () => createLocalDriver(await tempDir())],
+  ['sqlite', async () => createSqliteDriver(path.join(await tempDir(), 'test.db'))],
+];
+
+for (const [name, create] of drivers) {
+  describe(`${name} storage driver`, () => {
+    it('round-trips JSON documents and returns null for missing ones', async () => {
+      const storage = await create();
+      await storage.uploadJson('settings/a.json', { theme: 'dark', n: 1 });
+      assert.deepEqual(await storage.downloadJson('settings/a.json'), { theme: 'dark', n: 1 });
+      assert.equal(await storage.downloadJson('settings/missing.json'), null);
+      assert.equal(await storage.downloadJsonWithEtag('settings/missing.json'), null);
+    });
+
+    it('stores chats and users under their regular paths', async () => {
+      const storage = await create();
+      await storage.uploadJson('chats/ada/c1.json', chat('c1', 'Heaps'));
+      await storage.uploadJson('users/ada.json', { email: 'ada@example.com', name: 'Ada' });
+      assert.deepEqual(await storage.downloadJson('chats/ada/c1.json'), chat('c1', 'Heaps'));
+      assert.deepEqual(await storage.downloadJson('users/ada.json'), { email: 'ada@example.com', name: 'Ada' });
+    });
+
+    it('returns a new ETag per write and enforces write conditions', async () => {
+      const storage = await create();
+      const first = await storage.uploadJson('docs/x.json', { v: 1 });
+      assert.equal((await storage.downloadJsonWithEtag('docs/x.json'))?.etag, first);
+
+      await assert.rejects(storage.uploadJson('docs/x.json', { v: 2 }, { ifNoneMatch: '*' }), PreconditionFailedError);
+      const second = await storage.uploadJson('docs/x.json', { v: 2 }, { ifMatch: first });
+      assert.notEqual(second, first);
+      await assert.rejects(storage.uploadJson('docs/x.json', { v: 3 }, { ifMatch: first }), PreconditionFailedError);
+      await assert.rejects(storage.uploadJson('docs/y.json', { v: 1 }, { ifMatch: first }), PreconditionFailedError);
+
+      assert.deepEqual(await storage.downloadJsonWithEtag('docs/x.json'), { data: { v: 2 }, etag: second });
+      await storage.uploadJson('docs/new.json', { v: 1 }, { ifNoneMatch: '*' });
+    });
+
+    it('round-trips raw bytes', async () => {
+      const storage = await create();
+      const bytes = Buffer.from([0, 1, 2, 250, 255]);
+      await storage.uploadBlob('attachments/ada/img', bytes, 'image/png');
+      assert.deepEqual(await storage.downloadBlob('attachments/ada/img'), bytes);
+      assert.equal(await storage.downloadBlob('attachments/ada/none'), null);
+    });
+
+    it('lists blob names sorted and JSON documents by prefix', async () => {
+      const storage = await create();
+      await storage.uploadJson('chats/ada/c2.json', chat('c2', 'Graphs'));
+      await storage.uploadJson('chats/ada/c1.json', chat('c1', 'Heaps'));
+      await storage.uploadJson('chats/bob/c3.json', { ...chat('c3', 'Tries'), userEmail: 'bob@example.com' });
+      await storage.uploadJson('notes/ada.json', { text: 'hi' });
+
+      assert.deepEqual(await storage.listBlobs('chats/ada/'), ['chats/ada/c1.json', 'chats/ada/c2.json']);
+      const titles = (await storage.listJsonBlobs<{ title: string }>('chats/ada/')).map((c) => c.title).sort();
+      assert.deepEqual(titles, ['Graphs', 'Heaps']);
+      assert.deepEqual(await storage.listBlobs('nothing/'), []);
+    });
+
+    it('deletes blobs and reports whether anything was deleted', async () => {
+      const storage = await create();
+      await storage.uploadJson('chats/ada/c1.json', chat('c1', 'Heaps'));
+      await storage.uploadBlob('attachments/ada/img', Buffer.from('png'), 'image/png');
+
+      assert.equal(await storage.deleteBlob('chats/ada/c1.json'), true);
+      assert.equal(await storage.deleteBlob('chats/ada/c1.json'), false);
+      assert.equal(await storage.downloadJson('chats/ada/c1.json'), null);
+      assert.equal(await storage.deleteBlob('attachments/ada/img'), true);
+      assert.deepEqual(await storage.listBlobs('chats/ada/'), []);
+    });
+  });
+}